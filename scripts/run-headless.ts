@@ -0,0 +1,123 @@
+// Runs the whole timeline without a browser, on the CPU agent backend:
+//   npm run headless -- [--projects <file>] [--bridges <file>] [--names <file>] [--seed <n>] [--speed <n>] [--preset <id>] [--quiet] [--record <file>]
+// Projects and bridges may be JSON, CSV or JSON Lines files (detected from the extension, default columns).
+// Prints the agent population every simulated year and a summary at the end. --record writes the
+// year-by-year series of the cycle to a .csv file, or JSON for any other extension.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import type { Bridge, ClusterNameMap } from '../src/data/interfaces';
+import type { ConfigPresetFile } from '../src/config/SimulationConfig';
+import { importBridges, importClusteredData, inferDataFormat } from '../src/data/importers';
+import { configFromPreset, resolvePreset } from '../src/config/loader';
+import { Random } from '../src/core/Random';
+import { HeadlessGarden } from '../src/headless';
+import { seriesToCsv, seriesToJson } from '../src/data/CycleRecorder';
+
+interface CliOptions {
+  projects: string;
+  bridges: string;
+  names: string | null;
+  seed: number;
+  speed: number;
+  preset: string | null;
+  quiet: boolean;
+  record: string | null;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    projects: 'public/thesis_analysis_kmeans.json',
+    bridges: 'public/bridge_analysis.json',
+    names: 'public/cluster_map_static-kmeans.json',
+    seed: 1,
+    speed: 1,
+    preset: null,
+    quiet: false,
+    record: null
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--projects':
+        options.projects = argv[++i];
+        break;
+      case '--bridges':
+        options.bridges = argv[++i];
+        break;
+      case '--names':
+        options.names = argv[++i];
+        break;
+      case '--no-names':
+        options.names = null;
+        break;
+      case '--seed':
+        options.seed = Random.parseSeed(argv[++i] ?? null);
+        break;
+      case '--speed':
+        options.speed = Number(argv[++i]);
+        break;
+      case '--preset':
+        options.preset = argv[++i];
+        break;
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '--record':
+        options.record = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!(options.speed > 0)) throw new Error('--speed must be a positive number');
+  return options;
+}
+
+function readText(path: string): string {
+  return readFileSync(resolve(path), 'utf8');
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  const clusterNames = options.names ? JSON.parse(readText(options.names)) as ClusterNameMap : {};
+  const data = importClusteredData(readText(options.projects), inferDataFormat(options.projects), {}, clusterNames);
+  const bridges: Bridge[] = importBridges(readText(options.bridges), inferDataFormat(options.bridges), data.projects);
+
+  const presets = JSON.parse(readText('public/presets.json')) as ConfigPresetFile;
+  const config = configFromPreset(resolvePreset(presets, options.preset));
+
+  // The simulation logs every spawn; keep only this script's own output
+  const log = console.log;
+  if (options.quiet) console.log = () => {};
+
+  const garden = new HeadlessGarden(data, bridges, { seed: options.seed, speed: options.speed, config });
+  const { simulation, agents } = garden;
+  log(`🌱 Headless run ${simulation.START_YEAR}–${simulation.END_YEAR}, seed ${options.seed}`);
+
+  const startTime = Date.now();
+  for (let year = simulation.START_YEAR + 1; year <= simulation.END_YEAR; year++) {
+    garden.runYears(year - simulation.currentYear);
+    const trio = simulation.getProtagonistClusters().map(cluster => cluster.name).join(' / ');
+    log(`${year}: ${agents.getActiveAgentCount()} agents, ${agents.getFrontierAgentMirrors().length} frontier | ${trio}`);
+  }
+
+  console.log = log;
+  const seconds = (Date.now() - startTime) / 1000;
+  log(`\n${garden.getStepCount()} steps in ${seconds.toFixed(1)}s, ${garden.getArrivalCount()} frontier arrivals`);
+  const pool = agents.getPoolStats();
+  const rejected = Object.values(pool.rejected).reduce((sum, count) => sum + count, 0);
+  log(`Agent pool peaked at ${pool.peakActive} of ${pool.capacity} slots, ${pool.acquired} spawned, ${rejected} rejected`);
+
+  if (options.record) {
+    simulation.recordRunningYear();
+    const series = simulation.getCycleRecorder().getSeries();
+    const isCsv = extname(options.record).toLowerCase() === '.csv';
+    writeFileSync(resolve(options.record), isCsv ? seriesToCsv(series) : seriesToJson(series));
+    log(`📊 Recorded ${series.length} years to ${options.record}`);
+  }
+}
+
+main();
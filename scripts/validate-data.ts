@@ -0,0 +1,156 @@
+// Command-line dataset check, run before deploying new data files:
+//   npm run validate-data -- [--dataset <id>] [--projects <file>] [--bridges <file>] [--names <file>] [--json]
+// Projects and bridges may be JSON, CSV or JSON Lines files, read by the same importers as the app.
+// --dataset checks a dataset of public/datasets.json with its format, column mappings and year range;
+// otherwise the format is detected from the extension and the default columns are used.
+// Exits with status 1 when the dataset has errors, including files that do not parse at all.
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { DatasetDescriptor, DatasetManifest } from '../src/data/interfaces';
+import { validateDataset } from '../src/data/validation';
+import type { ValidationIssue, ValidationOptions, ValidationReport, ValidationSource } from '../src/data/validation';
+import { importBridgeRecords, importProjectRecords, inferDataFormat } from '../src/data/importers';
+
+const PUBLIC_DIR = 'public';
+
+interface CliOptions {
+  dataset: string | null;
+  projects: string;
+  bridges: string;
+  names: string | null;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    dataset: null,
+    projects: 'public/thesis_analysis_kmeans.json',
+    bridges: 'public/bridge_analysis.json',
+    names: 'public/cluster_map_static-kmeans.json',
+    json: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--dataset':
+        options.dataset = argv[++i];
+        break;
+      case '--projects':
+        options.projects = argv[++i];
+        break;
+      case '--bridges':
+        options.bridges = argv[++i];
+        break;
+      case '--names':
+        options.names = argv[++i];
+        break;
+      case '--no-names':
+        options.names = null;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+function readText(path: string): string {
+  return readFileSync(resolve(path), 'utf8');
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(readText(path));
+}
+
+// The dataset of the manifest, its file URLs resolved against the public directory
+function readDataset(id: string): DatasetDescriptor {
+  const manifest = readJson(`${PUBLIC_DIR}/datasets.json`) as DatasetManifest;
+  const dataset = manifest.datasets.find(d => d.id === id);
+  if (!dataset) {
+    throw new Error(`Unknown dataset "${id}", datasets.json has: ${manifest.datasets.map(d => d.id).join(', ')}`);
+  }
+  const inPublic = (url: string) => `${PUBLIC_DIR}/${url.replace(/^\//, '')}`;
+  return {
+    ...dataset,
+    projects: inPublic(dataset.projects),
+    bridges: inPublic(dataset.bridges),
+    clusterNames: dataset.clusterNames ? inPublic(dataset.clusterNames) : undefined
+  };
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const label = issue.severity === 'error' ? 'ERROR' : 'warn ';
+  return `${label} [${issue.source}] ${issue.code}: ${issue.message}`;
+}
+
+// A file that does not parse has no records to check, so it is reported on its own
+function unparsableReport(source: ValidationSource, path: string, error: Error): ValidationReport {
+  return {
+    valid: false,
+    issues: [{ severity: 'error', source, code: 'unparsable-file', message: `${path}: ${error.message}` }],
+    errorCount: 1,
+    warningCount: 0,
+    stats: { projectCount: 0, bridgeCount: 0, clusterCount: 0, yearRange: null }
+  };
+}
+
+function checkDataset(dataset: DatasetDescriptor, validationOptions: ValidationOptions): ValidationReport {
+  let projects: unknown;
+  try {
+    projects = importProjectRecords(readText(dataset.projects), dataset.format ?? inferDataFormat(dataset.projects), dataset.projectsImport);
+  } catch (error) {
+    return unparsableReport('projects', dataset.projects, error as Error);
+  }
+
+  let bridges: unknown;
+  try {
+    bridges = importBridgeRecords(readText(dataset.bridges), dataset.format ?? inferDataFormat(dataset.bridges), dataset.bridgesImport);
+  } catch (error) {
+    return unparsableReport('bridges', dataset.bridges, error as Error);
+  }
+
+  let clusterNames: unknown;
+  try {
+    clusterNames = dataset.clusterNames ? readJson(dataset.clusterNames) : undefined;
+  } catch (error) {
+    return unparsableReport('clusterNames', dataset.clusterNames!, error as Error);
+  }
+
+  return validateDataset({ projects, bridges, clusterNames }, validationOptions);
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  const dataset: DatasetDescriptor = options.dataset
+    ? readDataset(options.dataset)
+    : {
+        id: 'cli',
+        name: 'Command line',
+        projects: options.projects,
+        bridges: options.bridges,
+        clusterNames: options.names ?? undefined
+      };
+  const report = checkDataset(dataset, dataset.yearRange ? { expectedYearRange: dataset.yearRange } : {});
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const issue of report.issues) console.log(formatIssue(issue));
+    const { stats } = report;
+    const years = stats.yearRange ? `${stats.yearRange[0]}–${stats.yearRange[1]}` : 'n/a';
+    console.log(
+      `\n${stats.projectCount} projects, ${stats.bridgeCount} bridges, ${stats.clusterCount} clusters, years ${years}`
+    );
+    console.log(`${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  }
+
+  process.exitCode = report.valid ? 0 : 1;
+}
+
+main();
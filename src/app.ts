@@ -3,11 +3,25 @@ import { TrailSystem } from './systems/TrailSystem';
 import { ParticleSystem } from './systems/ParticleSystem';
 import { DOMUpdater } from './ui/DOMUpdater';
 import { Simulation } from './simulation';
+import { DataIndex } from './data/DataIndex';
 import { Renderer } from './renderer'; // New import
 import { EffectsSystem } from './systems/EffectsSystem';
-import { loadBridgeData, loadData } from './data/loader';
-import type { ClusteredData, Bridge } from './data/interfaces';
+import { loadBridgeData, loadData, loadManifest, resolveDataset } from './data/loader';
+import type { ClusteredData, Bridge, DatasetDescriptor, DatasetManifest } from './data/interfaces';
 import { Ledger } from './ui/Ledger';
+import { ErrorOverlay } from './ui/ErrorOverlay';
+import { DatasetPicker } from './ui/DatasetPicker';
+import { Random } from './core/Random';
+import { SimulationClock } from './core/SimulationClock';
+import { configFromPreset, loadPresets, resolvePreset } from './config/loader';
+import type { ConfigPreset, SimulationConfig } from './config/SimulationConfig';
+import { TuningPanel } from './ui/TuningPanel';
+import { TimelineScrubber } from './ui/TimelineScrubber';
+import { TitleCard } from './ui/TitleCard';
+import { FlowMatrix } from './ui/FlowMatrix';
+import { SeriesDownload } from './ui/SeriesDownload';
+import { loadStoryboard } from './narrative/loader';
+import type { Storyboard, StoryboardChapter } from './narrative/Storyboard';
 
 // State management for the cyclical simulation
 const CyclePhase = {
@@ -39,20 +53,48 @@ export class SemanticGarden {
 
   // UI
   private domUpdater: DOMUpdater;
+  private errorOverlay: ErrorOverlay = new ErrorOverlay();
+  private datasetPicker: DatasetPicker | null = null;
+  private timelineScrubber: TimelineScrubber | undefined;
+  private titleCard: TitleCard | undefined;
+  private flowMatrix: FlowMatrix | undefined;
+  private seriesDownload: SeriesDownload | undefined;
 
   // Animation state
   private isPlaying: boolean = true;
   private speed: number = 3;
+  private playbackDirection: 1 | -1 = 1; // -1 plays the timeline in reverse
   private animationId: number | null = null;
   private showParticles: boolean = true;
   private data: ClusteredData | null = null;
   private ledger: Ledger | undefined;
   private bridgeData: Bridge[] = [];
 
+  // Optional authored storyline of the dataset, and the chapter the UI currently shows
+  private storyboard: Storyboard | null = null;
+  private shownChapter: StoryboardChapter | null = null;
+
+  // Dataset selection
+  private manifest: DatasetManifest | null = null;
+  private dataset: DatasetDescriptor | null = null;
+  private systemsReady: boolean = false;
+  private isSwitchingDataset: boolean = false;
+
+  // Seeded randomness, so a cycle can be replayed with ?seed=
+  private readonly seed: number;
+  private random!: Random;
+
+  // Tuning parameters from the selected preset, shared by all systems
+  private config: SimulationConfig | null = null;
+  private preset: ConfigPreset | null = null;
+  private showTuningPanel: boolean = false;
+  private showScoreBreakdown: boolean = false;
+  private showFlowMatrix: boolean = false;
+
   // Cyclical state management
   private currentPhase: CyclePhase = CyclePhase.SIMULATING;
-  private phaseTimer: number = 0; // Timer for the duration of epilogue/fade phases
-  private lastFrameTime: number = 0; // For robust deltaTime calculation
+  private phaseTimer: number = 0; // Simulated seconds spent in the current epilogue/fade phase
+  private clock: SimulationClock = new SimulationClock(); // Fixed-step timing, independent of the display rate
   
   private readonly EPILOGUE_DURATION = 30; // 30 seconds
   private readonly FADE_DURATION = 2;      // 2 seconds
@@ -62,31 +104,114 @@ export class SemanticGarden {
 
     this.domUpdater = new DOMUpdater();
 
+    this.seed = Random.parseSeed(new URLSearchParams(window.location.search).get('seed'));
+    console.log(`🎲 Random seed: ${this.seed}`);
+
+    // Listen for ledger orientation changes to adjust canvas margins
+    window.addEventListener('ledgerOrientationChange', () => {
+      this.handleLedgerOrientationChange();
+    });
+
+    window.addEventListener('resize', () => this.handleResize());
+
     this.initialize();
   }
 
   private async initialize(): Promise<void> {
     this.setupCanvas();
     await this.initializeWebGL();
-    await this.loadApplicationData(); // Load data first
+
+    const params = new URLSearchParams(window.location.search);
+
+    try {
+      this.manifest = await loadManifest();
+      const presetFile = await loadPresets();
+      this.preset = resolvePreset(presetFile, params.get('preset'));
+      this.config = configFromPreset(this.preset);
+    } catch (error) {
+      this.errorOverlay.showError(error);
+      return;
+    }
+
+    const dataset = resolveDataset(this.manifest, params.get('dataset'));
+    this.datasetPicker = new DatasetPicker(this.manifest, dataset.id, (datasetId) => this.switchDataset(datasetId));
+
+    await this.startDataset(dataset);
+  }
+
+  /**
+   * Loads a dataset and builds every data-dependent system for it, then starts the animation.
+   */
+  private async startDataset(dataset: DatasetDescriptor): Promise<void> {
+    this.dataset = dataset;
+    const dataLoaded = await this.loadApplicationData(dataset); // Load data first
+    if (!dataLoaded) return; // The error overlay explains what went wrong
+
+    this.initializeSystems();
+
+    // Start the animation loop
+    if (this.isPlaying) this.startAnimation();
+  }
+
+  /**
+   * Tears down the running systems and re-initialises them with another dataset from the manifest.
+   */
+  public async switchDataset(datasetId: string): Promise<void> {
+    if (!this.manifest || this.isSwitchingDataset || datasetId === this.dataset?.id) return;
+
+    const dataset = resolveDataset(this.manifest, datasetId);
+    console.log(`🗂️ Switching to dataset "${dataset.name}"...`);
+
+    this.isSwitchingDataset = true;
+    this.datasetPicker?.setDisabled(true);
+
+    // Keep the selection in the URL so a reload comes back to the same dataset
+    const url = new URL(window.location.href);
+    url.searchParams.set('dataset', dataset.id);
+    window.history.replaceState(null, '', url);
+
+    this.teardownSystems();
+    this.errorOverlay.hide();
+    await this.startDataset(dataset);
+
+    this.datasetPicker?.setSelected(dataset.id);
+    this.datasetPicker?.setDisabled(false);
+    this.isSwitchingDataset = false;
+  }
+
+  private initializeSystems(): void {
+    const config = this.config!;
+
+    // Every dataset run starts the sequence from the seed, so it replays identically
+    this.random = new Random(this.seed);
 
     // Initialize systems that depend on data
-    this.particleSystem = new ParticleSystem(this.width, this.height);
+    this.particleSystem = new ParticleSystem(this.width, this.height, this.random);
     this.particleSystem.initialize(this.data!);
 
-    this.gpuSystem = new GPUSystem(this.gl, this.width, this.height, 1024);
-    this.trailSystem = new TrailSystem(this.gl, this.width, this.height);
+    this.gpuSystem = new GPUSystem(this.gl, this.width, this.height, config);
+    this.trailSystem = new TrailSystem(this.gl, this.width, this.height, config);
 
     // Initialize simulation and renderer after all systems are ready
+    const index = new DataIndex(this.data!, this.bridgeData);
+    this.storyboard?.resolveIds(id => index.getCluster(id) !== undefined, id => index.getProject(id) !== undefined);
     this.simulation = new Simulation(
       this.particleSystem,
       this.gpuSystem,
-      this.data!,
-      this.bridgeData,
+      index,
+      this.random,
+      config,
       this.width,
-      this.height
+      this.height,
+      {
+        startYear: this.dataset?.yearRange?.[0],
+        endYear: this.dataset?.yearRange?.[1],
+        palette: this.dataset?.palette,
+        protagonistEras: this.dataset?.protagonistEras,
+        storyboard: this.storyboard
+      }
     );
-    this.effectsSystem = new EffectsSystem();
+    this.effectsSystem = new EffectsSystem(config);
 
     this.renderer = new Renderer(
       this.canvas,
@@ -104,20 +229,120 @@ export class SemanticGarden {
         isPlaying ? this.startAnimation() : this.stopAnimation();
       },
       onSpeedChange: (speed) => this.speed = speed
-    });
+    }, this.simulation.START_YEAR, new TuningPanel(config, this.preset!));
+    this.ledger.setDebugControlsVisible(this.showTuningPanel);
+    this.ledger.setScoreBreakdownVisible(this.showScoreBreakdown);
 
     // Change theme colors
     this.ledger.setAccentColor('#ff6b35', '#ff8c69'); // Orange theme
 
-    // Listen for ledger orientation changes to adjust canvas margins
-    window.addEventListener('ledgerOrientationChange', () => {
-      this.handleLedgerOrientationChange();
-    });
+    this.timelineScrubber = new TimelineScrubber({
+      onSeek: (year) => this.seekTo(year),
+      onStep: (years) => this.seekTo(Math.floor(this.simulation.currentYear) + years),
+      onReverseChange: (reverse) => this.playbackDirection = reverse ? -1 : 1
+    }, index, config, this.simulation.START_YEAR, this.simulation.END_YEAR);
+    this.timelineScrubber.resize(this.width, this.height);
+    this.playbackDirection = 1;
 
-    window.addEventListener('resize', () => this.handleResize());
+    this.titleCard = new TitleCard();
+    this.titleCard.resize(this.width, this.height);
 
-    // Start the animation loop
-    this.startAnimation();
+    this.flowMatrix = new FlowMatrix(this.simulation.getCrossClusterFlows(), index, config, this.simulation.START_YEAR, this.simulation.END_YEAR);
+    this.flowMatrix.setVisible(this.showFlowMatrix);
+
+    this.seriesDownload = new SeriesDownload(
+      this.simulation.getCycleRecorder(),
+      () => this.simulation.recordRunningYear(),
+      `semantic-garden-${this.dataset?.id ?? 'data'}`
+    );
+    this.shownChapter = null;
+
+    // Reset the cycle state for the new timeline
+    this.currentPhase = CyclePhase.SIMULATING;
+    this.phaseTimer = 0;
+    this.clock.reset();
+
+    this.systemsReady = true;
+  }
+
+  /**
+   * Returns every system to the start of the timeline without reloading.
+   * Data, seed, config and UI settings carry over into the next cycle.
+   */
+  private resetCycle(): void {
+    this.simulation.reset();
+    this.gpuSystem.reset();
+    this.trailSystem.reset();
+    this.particleSystem.reset();
+    this.effectsSystem.reset();
+    this.ledger?.reset(this.simulation.currentYear);
+    console.log('🔄 All systems reset for a new cycle');
+  }
+
+  /**
+   * Jumps the whole visualization to a year. Trails and pings from the previous moment are cleared,
+   * and an interrupted epilogue or fade goes straight back to simulating.
+   */
+  public seekTo(year: number): void {
+    if (!this.systemsReady) return;
+
+    this.simulation.seek(year);
+    this.trailSystem.reset();
+    this.effectsSystem.reset();
+    this.ledger?.reset(this.simulation.currentYear);
+
+    this.currentPhase = CyclePhase.SIMULATING;
+    this.phaseTimer = 0;
+
+    // While paused, show the new moment right away
+    if (!this.isPlaying) this.renderFrame();
+  }
+
+  /**
+   * Shows or hides the Ledger's playback and parameter tuning controls.
+   */
+  public toggleTuningPanel(): void {
+    this.showTuningPanel = !this.showTuningPanel;
+    this.ledger?.setDebugControlsVisible(this.showTuningPanel);
+  }
+
+  /**
+   * Shows or hides the score breakdown explaining each Frontier journey in the Ledger.
+   */
+  public toggleScoreBreakdown(): void {
+    this.showScoreBreakdown = !this.showScoreBreakdown;
+    this.ledger?.setScoreBreakdownVisible(this.showScoreBreakdown);
+  }
+
+  /**
+   * Shows or hides the matrix of agents spawned and arrived between clusters this cycle.
+   */
+  public toggleFlowMatrix(): void {
+    this.showFlowMatrix = !this.showFlowMatrix;
+    this.flowMatrix?.setVisible(this.showFlowMatrix);
+  }
+
+  private teardownSystems(): void {
+    this.stopAnimation();
+    if (!this.systemsReady) return;
+    this.systemsReady = false;
+
+    this.gpuSystem.dispose();
+    this.trailSystem.dispose();
+    this.renderer.dispose();
+    this.ledger?.destroy();
+    this.ledger = undefined;
+    this.timelineScrubber?.destroy();
+    this.timelineScrubber = undefined;
+    this.titleCard?.destroy();
+    this.titleCard = undefined;
+    this.flowMatrix?.destroy();
+    this.flowMatrix = undefined;
+    this.seriesDownload?.destroy();
+    this.seriesDownload = undefined;
+    this.storyboard = null;
+    this.data = null;
+    this.bridgeData = [];
   }
 
   private setupCanvas(): void {
@@ -165,21 +390,27 @@ export class SemanticGarden {
     });
 
     document.getElementById('rendererInfo')!.textContent = 'WebGL';
+    document.getElementById('seedInfo')!.textContent = this.seed.toString();
   }
 
-  private async loadApplicationData(): Promise<void> {
+  private async loadApplicationData(dataset: DatasetDescriptor): Promise<boolean> {
     try {
-      this.data = await loadData();
+      this.data = await loadData(dataset);
       console.log('✅ Application data loaded');
-      this.bridgeData = await loadBridgeData(); // Load bridge data
+      this.bridgeData = await loadBridgeData(dataset, this.data); // Load bridge data
       console.log('✅ Bridge data loaded');
+      this.storyboard = dataset.storyboard ? await loadStoryboard(dataset.storyboard) : null;
+      return true;
     } catch (error) {
       console.error('❌ Failed to initialize application:', error);
+      this.errorOverlay.showError(error);
+      return false;
     }
   }
 
   private handleResize(): void {
     this.setupCanvas();
+    if (!this.systemsReady) return;
 
     // Propagate the new dimensions to all systems
     this.gl.viewport(0, 0, this.width, this.height);
@@ -188,6 +419,8 @@ export class SemanticGarden {
     this.particleSystem.resize(this.width, this.height, this.data!);
     this.simulation.resize(this.width, this.height);
     this.renderer.resize(this.width, this.height);
+    this.timelineScrubber?.resize(this.width, this.height);
+    this.titleCard?.resize(this.width, this.height);
   }
 
   private handleLedgerOrientationChange(): void {
@@ -198,29 +431,71 @@ export class SemanticGarden {
   private updateUI(): void {
     this.domUpdater.update({
       year: this.simulation.currentYear,
-      activeParticles: this.particleSystem.getConstellationParticleCount(this.simulation.currentYear, this.simulation.PROJECT_ACTIVE_WINDOW_YEARS),
+      activeParticles: this.particleSystem.getConstellationParticleCount(this.simulation.currentYear, this.config!.timeline.activeWindowYears),
       activeClusters: this.simulation.getProtagonistClusters().length,
-      activeAgents: this.gpuSystem.getActiveAgentCount()
+      activeAgents: this.gpuSystem.getActiveAgentCount(),
+      agentPool: this.gpuSystem.getPoolStats()
     });
     this.ledger!.update(this.gpuSystem.getFrontierAgentMirrors(), this.simulation.currentYear);
+    this.timelineScrubber?.update(this.simulation.currentYear, this.simulation.getProtagonistClusters());
+    this.flowMatrix?.update(this.simulation.currentYear, this.simulation.getProtagonistClusters());
+    this.seriesDownload?.update();
+
+    // Announce storyboard chapters as the timeline enters them
+    const chapter = this.simulation.getCurrentChapter();
+    if (chapter !== this.shownChapter) {
+      this.shownChapter = chapter;
+      this.ledger?.setChapterTitle(chapter?.title ?? null);
+      if (chapter) {
+        this.titleCard?.show(chapter);
+      } else {
+        this.titleCard?.hide();
+      }
+    }
   }
 
   private animate(): void {
     if (!this.isPlaying) return;
 
-    // Robust deltaTime calculation
-    const currentTime = performance.now();
-    if (this.lastFrameTime === 0) this.lastFrameTime = currentTime;
-    const deltaTime = (currentTime - this.lastFrameTime) / 1000; // Convert to seconds
-    this.lastFrameTime = currentTime;
+    // Run as many fixed simulation steps as the elapsed real time calls for, then draw once
+    const steps = this.clock.tick(performance.now());
+    for (let i = 0; i < steps; i++) {
+      this.step(this.clock.STEP_SECONDS);
+    }
 
-    this.phaseTimer += deltaTime;
+    // Frontier mirrors are read back from the GPU (a synchronous readPixels) once per rendered frame,
+    // after all of its steps, and only when it moved on
+    if (steps > 0) {
+      this.gpuSystem.updateFrontierMirrors(this.particleSystem.getClusters(), mirror => this.simulation.continueFrontierJourney(mirror));
+      for (const arrival of this.gpuSystem.frontierArrivals) {
+        this.effectsSystem.createPing(arrival.x, arrival.y);
+      }
+    }
+
+    this.renderFrame();
+    this.animationId = requestAnimationFrame(() => this.animate());
+  }
+
+  /**
+   * Advances the cycle and every system by one fixed step of simulated time.
+   */
+  private step(stepSeconds: number): void {
+    this.phaseTimer += stepSeconds;
 
     switch (this.currentPhase) {
       case CyclePhase.SIMULATING:
         // This is the existing animation logic - advance the timeline
-        const yearDelta = this.simulation.YEAR_DURATION / this.speed;
-        this.simulation.currentYear += 1 / (yearDelta / 16.67);
+        // A storyboard chapter can slow down or speed up its part of the timeline
+        const chapterSpeed = this.simulation.getCurrentChapter()?.speed ?? 1;
+        const yearSeconds = this.config!.timeline.yearDurationMs / 1000 / (this.speed * chapterSpeed);
+        this.simulation.currentYear += this.playbackDirection * stepSeconds / yearSeconds;
+
+        if (this.simulation.currentYear < this.simulation.START_YEAR) {
+          // Reverse playback reached the beginning: hold there and continue forwards
+          this.simulation.currentYear = this.simulation.START_YEAR;
+          this.playbackDirection = 1;
+          this.timelineScrubber?.setReverse(false);
+        }
 
         if (this.simulation.currentYear > this.simulation.END_YEAR) {
           // TRANSITION TO EPILOGUE
@@ -254,10 +529,12 @@ export class SemanticGarden {
         break;
 
       case CyclePhase.RESETTING:
-        // This is where the hard reset happens
-        // For now, let's be hacky and just reload the page - the ultimate reset!
-        console.log('🔄 Performing ultimate reset - reloading page...');
-        window.location.reload();
+        // The screen is fully white, so every system can be reset in place
+        this.resetCycle();
+        // TRANSITION TO FADING IN
+        this.currentPhase = CyclePhase.FADING_IN;
+        this.phaseTimer = 0;
+        console.log('🌤️ Fading in...');
         break;
 
       case CyclePhase.FADING_IN:
@@ -271,32 +548,29 @@ export class SemanticGarden {
         break;
     }
 
-    // The render logic now runs regardless of the phase
+    // The systems run regardless of the phase
     // (with one exception for the simulation update)
     if (this.currentPhase === CyclePhase.SIMULATING) {
-      this.simulation.update(); // Only spawn agents in this phase
+      this.simulation.update(stepSeconds); // Only spawn agents in this phase
     }
-    
-    this.gpuSystem.update(this.trailSystem.getTrailTexture(), this.simulation.currentYear);
-    const clusterCentroids = this.particleSystem.getClusters();
-    this.gpuSystem.updateFrontierMirrors(clusterCentroids);
-
-    // Trigger pings
-    const arrivals = this.gpuSystem.frontierArrivals;
-    if (arrivals.length > 0) {
-      for (const arrival of arrivals) {
-        this.effectsSystem.createPing(arrival.x, arrival.y);
-      }
-    }
-    this.effectsSystem.update();
 
+    this.gpuSystem.update(this.trailSystem.getTrailTexture(), this.simulation.currentYear, stepSeconds);
+
+    this.effectsSystem.update(stepSeconds);
+
+    // Trails stay on the GPU, so updating them every step costs no read-back; agents steer along them
     this.trailSystem.update(
       this.gpuSystem.getAgentStateTexture(),
       this.gpuSystem.getAgentPropertiesTexture(),
+      this.gpuSystem.getAgentTargetTexture(),
+      this.gpuSystem.getSpeciesTexture(),
       this.gpuSystem.getAgentTextureSize(),
       this.gpuSystem.getActiveAgentCount()
     );
+  }
 
+  // Draws the current state without advancing any system
+  private renderFrame(): void {
     const protagonistClusters = this.simulation.getProtagonistClusters();
     // Pass the current phase and timer to the renderer for fade effects
     this.renderer.render(this.showParticles, protagonistClusters, this.currentPhase, this.phaseTimer, this.FADE_DURATION);
@@ -306,11 +580,11 @@ export class SemanticGarden {
     }
 
     this.updateUI();
-    this.animationId = requestAnimationFrame(() => this.animate());
   }
 
   private startAnimation(): void {
     if (this.animationId) return;
+    this.clock.reset(); // Time spent paused is not simulated
     this.animate();
   }
 
@@ -322,8 +596,6 @@ export class SemanticGarden {
   }
 
   public dispose(): void {
-    this.stopAnimation();
-    this.gpuSystem.dispose();
-    this.trailSystem.dispose();
+    this.teardownSystems();
   }
 }
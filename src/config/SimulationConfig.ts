@@ -0,0 +1,363 @@
+// Tuning parameters shared by the simulation systems.
+// One config object is created at startup and handed to every system; systems read it on each use,
+// so editing a value on the shared object takes effect on the next frame.
+// Durations are simulated time: the app advances the simulation in fixed steps (see SimulationClock),
+// so they do not depend on the display refresh rate.
+
+// How Simulation picks its protagonist clusters, see src/narrative/strategies.ts
+export const PROTAGONIST_STRATEGIES = ['random', 'weighted', 'growth', 'bridges', 'round-robin', 'curated'] as const;
+export type ProtagonistStrategyId = typeof PROTAGONIST_STRATEGIES[number];
+
+// Models Simulation can use to pick each year's Frontier bridge, see src/narrative/scorers.ts
+export const BRIDGE_SCORERS = ['default', 'novelty', 'theme-overlap'] as const;
+export type BridgeScorerId = typeof BRIDGE_SCORERS[number];
+
+// Where agents head: the target cluster's centroid, or its project most similar to the bridge's project
+export const TARGETING_MODES = ['centroid', 'project'] as const;
+export type TargetingMode = typeof TARGETING_MODES[number];
+
+export interface TimelineConfig {
+  yearDurationMs: number; // Real time per simulated year at speed 1
+  activeWindowYears: number; // Projects (and the agents they spawn) fade after this period
+  protagonistPeriodYears: number; // How often a new protagonist trio is chosen
+  protagonistCount: number; // Size of the protagonist group, a trio by default
+  protagonistStrategy: ProtagonistStrategyId;
+  rampUpStartFraction: number; // Fraction of the timeline before spawning starts to ramp up
+  rampUpDurationFraction: number; // Fraction of the timeline over which spawning reaches full intensity
+}
+
+export interface SpawningConfig {
+  agentPoolSize: number; // Capacity of the GPU agent textures, fixed once the systems are built
+  maxTotalAgents: number;
+  maxAgentsPerFrame: number;
+  maxFrontierAgents: number;
+  maxJourneyLegs: number; // Bridges a Frontier agent may chain into one journey, 1 ends every journey on arrival
+  targeting: TargetingMode;
+  wandererShare: number; // Share of population maintenance agents spawned as wanderers
+  scoutShare: number; // Share of bridge Ecosystem agents spawned as scouts
+  minSpawnSimilarity: number;
+  initialSpeed: number; // Base speed agents are launched with
+  populationTargetFraction: number; // Share of maxTotalAgents kept alive by population maintenance
+  populationCheckIntervalMs: number; // Simulated time between population checks
+}
+
+// Weights of the Frontier bridge score components; a scorer only uses the components it knows
+export interface ScoringConfig {
+  scorer: BridgeScorerId;
+  recency: number;
+  intensity: number;
+  bridgeBuilding: number;
+  novelty: number; // Used by the 'novelty' scorer
+  themeOverlap: number; // Used by the 'theme-overlap' scorer
+}
+
+export interface LifespanConfig {
+  ecosystemMin: number; // seconds
+  ecosystemMax: number; // seconds
+  frontierMin: number; // seconds
+  frontierMax: number; // seconds
+  ecosystemBrightness: number;
+  frontierBrightness: number;
+}
+
+export interface SteeringConfig {
+  deltaTime: number; // Integration factor of the agent update pass, applied once per simulation step
+  speed: number;
+  sensorDistance: number; // pixels
+  sensorAngleDegrees: number;
+  turnStrength: number;
+  similarityInfluence: number; // How much a bridge's similarity shapes its agents' speed, wander and trails, 0 = not at all
+}
+
+export interface TrailConfig {
+  decayFactor: number; // Trail brightness kept per simulation step (closer to 1 = slower fade)
+  strength: number; // Deposit intensity per simulation step
+  gamma: number; // < 1 brightens mid-tones
+  contrast: number; // > 1 sharpens core lines
+}
+
+export interface EffectsConfig {
+  pingLifespan: number; // seconds
+  pingMaxRadius: number; // pixels
+}
+
+export interface SimulationConfig {
+  timeline: TimelineConfig;
+  spawning: SpawningConfig;
+  scoring: ScoringConfig;
+  lifespans: LifespanConfig;
+  steering: SteeringConfig;
+  trails: TrailConfig;
+  effects: EffectsConfig;
+}
+
+export type ConfigSection = keyof SimulationConfig;
+
+// A preset only lists the values it changes
+export type ConfigOverrides = { [S in ConfigSection]?: Partial<SimulationConfig[S]> };
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  description?: string;
+  settings: ConfigOverrides;
+}
+
+export interface ConfigPresetFile {
+  defaultPreset: string;
+  presets: ConfigPreset[];
+}
+
+/**
+ * The values the installation was tuned with. Presets are applied on top of these.
+ */
+export const DEFAULT_CONFIG: SimulationConfig = {
+  timeline: {
+    yearDurationMs: 12000,
+    activeWindowYears: 5.0,
+    protagonistPeriodYears: 5,
+    protagonistCount: 3,
+    protagonistStrategy: 'random',
+    // On the original 1981–2025 archive this ramps up after 10 years (1991) and reaches full intensity by 2006
+    rampUpStartFraction: 10 / 44,
+    rampUpDurationFraction: 15 / 44
+  },
+  spawning: {
+    agentPoolSize: 1024,
+    maxTotalAgents: 600,
+    maxAgentsPerFrame: 30,
+    maxFrontierAgents: 10,
+    maxJourneyLegs: 1,
+    targeting: 'centroid',
+    wandererShare: 0.4,
+    scoutShare: 0.1,
+    minSpawnSimilarity: 0.68,
+    initialSpeed: 3.0,
+    populationTargetFraction: 0.7,
+    populationCheckIntervalMs: 1000
+  },
+  scoring: {
+    scorer: 'default',
+    recency: 1.2,
+    intensity: 1.5,
+    bridgeBuilding: 0.5,
+    novelty: 1.0,
+    themeOverlap: 1.0
+  },
+  lifespans: {
+    ecosystemMin: 50,
+    ecosystemMax: 150,
+    frontierMin: 135,
+    frontierMax: 210,
+    ecosystemBrightness: 0.6,
+    frontierBrightness: 1.0
+  },
+  steering: {
+    deltaTime: 0.5,
+    speed: 1,
+    sensorDistance: 15.0,
+    sensorAngleDegrees: 60,
+    turnStrength: 0.1,
+    similarityInfluence: 1.0
+  },
+  trails: {
+    decayFactor: 0.995,
+    strength: 0.08,
+    gamma: 0.85,
+    contrast: 1.4
+  },
+  effects: {
+    pingLifespan: 0.5,
+    pingMaxRadius: 50
+  }
+};
+
+// Numbers have a [min, max] range, text settings a list of allowed values
+type ConfigLimit<T> = [T] extends [number] ? [number, number] : readonly T[];
+
+/**
+ * Allowed range or values of every config setting. Anything outside is rejected at startup.
+ */
+export const CONFIG_LIMITS: { [S in ConfigSection]: { [K in keyof SimulationConfig[S]]: ConfigLimit<SimulationConfig[S][K]> } } = {
+  timeline: {
+    yearDurationMs: [500, 120000],
+    activeWindowYears: [0.5, 50],
+    protagonistPeriodYears: [1, 50],
+    protagonistCount: [1, 8], // Limited by the default protagonist palette
+    protagonistStrategy: PROTAGONIST_STRATEGIES,
+    rampUpStartFraction: [0, 1],
+    rampUpDurationFraction: [0.01, 1]
+  },
+  spawning: {
+    agentPoolSize: [16, 16384],
+    maxTotalAgents: [0, 16384],
+    maxAgentsPerFrame: [1, 1000],
+    maxFrontierAgents: [0, 100],
+    maxJourneyLegs: [1, 10],
+    targeting: TARGETING_MODES,
+    wandererShare: [0, 1],
+    scoutShare: [0, 1],
+    minSpawnSimilarity: [0, 0.99],
+    initialSpeed: [0, 20],
+    populationTargetFraction: [0, 1],
+    populationCheckIntervalMs: [16, 60000]
+  },
+  scoring: {
+    scorer: BRIDGE_SCORERS,
+    recency: [0, 10],
+    intensity: [0, 10],
+    bridgeBuilding: [0, 10],
+    novelty: [0, 10],
+    themeOverlap: [0, 10]
+  },
+  lifespans: {
+    // The agent shaders treat a maxAge below 1 as an empty slot, so lifespans stay well above it
+    ecosystemMin: [2, 3600],
+    ecosystemMax: [2, 3600],
+    frontierMin: [2, 3600],
+    frontierMax: [2, 3600],
+    ecosystemBrightness: [0, 1],
+    frontierBrightness: [0, 1]
+  },
+  steering: {
+    deltaTime: [0, 5],
+    speed: [0, 10],
+    sensorDistance: [0, 200],
+    sensorAngleDegrees: [0, 180],
+    turnStrength: [0, 2],
+    similarityInfluence: [0, 2]
+  },
+  trails: {
+    decayFactor: [0.5, 1],
+    strength: [0, 1],
+    gamma: [0.1, 5],
+    contrast: [0.1, 5]
+  },
+  effects: {
+    pingLifespan: [0.05, 10],
+    pingMaxRadius: [0, 500]
+  }
+};
+
+export class ConfigValidationError extends Error {
+  public readonly issues: string[];
+
+  constructor(label: string, issues: string[]) {
+    super(`${label} is not a valid configuration:\n- ${issues.join('\n- ')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isChoiceLimit(limit: readonly unknown[]): limit is readonly string[] {
+  return limit.every(value => typeof value === 'string');
+}
+
+/**
+ * Checks that an overrides object only names known settings and that every value is in range.
+ * Returns the list of problems, empty when the overrides are valid.
+ */
+export function validateConfigOverrides(raw: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(raw)) return ['settings must be an object'];
+
+  for (const [section, values] of Object.entries(raw)) {
+    if (!(section in CONFIG_LIMITS)) {
+      issues.push(`unknown section "${section}"`);
+      continue;
+    }
+    if (!isRecord(values)) {
+      issues.push(`${section} must be an object`);
+      continue;
+    }
+
+    const limits = CONFIG_LIMITS[section as ConfigSection] as Record<string, [number, number] | readonly string[]>;
+    for (const [key, value] of Object.entries(values)) {
+      const range = limits[key];
+      if (!range) {
+        issues.push(`unknown setting "${section}.${key}"`);
+      } else if (isChoiceLimit(range)) {
+        if (typeof value !== 'string' || !range.includes(value)) {
+          issues.push(`${section}.${key} must be one of ${range.join(', ')}, got ${JSON.stringify(value)}`);
+        }
+      } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${section}.${key} must be a number, got ${JSON.stringify(value)}`);
+      } else if (value < range[0] || value > range[1]) {
+        issues.push(`${section}.${key} = ${value} is outside ${range[0]}–${range[1]}`);
+      }
+    }
+  }
+  return issues;
+}
+
+// Relationships between values that the per-value ranges cannot express
+function validateConsistency(config: SimulationConfig): string[] {
+  const issues: string[] = [];
+  const { lifespans, spawning } = config;
+  if (lifespans.ecosystemMin > lifespans.ecosystemMax) {
+    issues.push('lifespans.ecosystemMin is greater than lifespans.ecosystemMax');
+  }
+  if (lifespans.frontierMin > lifespans.frontierMax) {
+    issues.push('lifespans.frontierMin is greater than lifespans.frontierMax');
+  }
+  if (spawning.maxTotalAgents > spawning.agentPoolSize) {
+    issues.push(`spawning.maxTotalAgents (${spawning.maxTotalAgents}) exceeds spawning.agentPoolSize (${spawning.agentPoolSize})`);
+  }
+  return issues;
+}
+
+/**
+ * Applies overrides on top of a base config, returning a new config object.
+ */
+export function mergeConfig(base: SimulationConfig, overrides: ConfigOverrides): SimulationConfig {
+  const merged = {} as Record<ConfigSection, unknown>;
+  for (const section of Object.keys(base) as ConfigSection[]) {
+    merged[section] = { ...base[section], ...overrides[section] };
+  }
+  return merged as SimulationConfig;
+}
+
+/**
+ * Validates a preset's settings and merges them onto the defaults.
+ * Throws ConfigValidationError listing every problem.
+ */
+export function createConfig(overrides: unknown, label: string = 'Config'): SimulationConfig {
+  const issues = validateConfigOverrides(overrides);
+  if (issues.length > 0) throw new ConfigValidationError(label, issues);
+
+  const config = mergeConfig(DEFAULT_CONFIG, overrides as ConfigOverrides);
+  const consistencyIssues = validateConsistency(config);
+  if (consistencyIssues.length > 0) throw new ConfigValidationError(label, consistencyIssues);
+
+  return config;
+}
+
+/**
+ * Lists the values of a config that differ from a base config, in the shape of preset settings.
+ */
+export function diffConfig(base: SimulationConfig, config: SimulationConfig): ConfigOverrides {
+  const overrides: Record<string, Record<string, number | string>> = {};
+  for (const section of Object.keys(base) as ConfigSection[]) {
+    const baseValues = base[section] as unknown as Record<string, number | string>;
+    const values = config[section] as unknown as Record<string, number | string>;
+    for (const key of Object.keys(baseValues)) {
+      if (values[key] !== baseValues[key]) {
+        overrides[section] = { ...overrides[section], [key]: values[key] };
+      }
+    }
+  }
+  return overrides as ConfigOverrides;
+}
+
+/**
+ * Copies every value of a config into another config object in place, so systems holding it see the change.
+ */
+export function assignConfig(target: SimulationConfig, source: SimulationConfig): void {
+  for (const section of Object.keys(target) as ConfigSection[]) {
+    Object.assign(target[section], source[section]);
+  }
+}
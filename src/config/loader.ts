@@ -0,0 +1,53 @@
+import type { ConfigPreset, ConfigPresetFile, SimulationConfig } from './SimulationConfig';
+import { createConfig } from './SimulationConfig';
+
+const PRESETS_URL = '/presets.json';
+
+/**
+ * Loads the file of named tuning presets.
+ */
+export async function loadPresets(): Promise<ConfigPresetFile> {
+  try {
+    const response = await fetch(PRESETS_URL);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const presetFile = await response.json() as ConfigPresetFile;
+
+    if (!Array.isArray(presetFile.presets) || presetFile.presets.length === 0) {
+      throw new Error(`${PRESETS_URL} does not list any presets`);
+    }
+    for (const preset of presetFile.presets) {
+      if (!preset.id || typeof preset.settings !== 'object') {
+        throw new Error(`Preset "${preset.id ?? preset.name}" in ${PRESETS_URL} needs an id and a settings object`);
+      }
+    }
+
+    console.log(`🎛️ Loaded ${presetFile.presets.length} config preset(s)`);
+    return presetFile;
+  } catch (error) {
+    console.error('❌ Failed to load config presets:', error);
+    throw error;
+  }
+}
+
+/**
+ * Picks the requested preset, falling back to the file's default.
+ */
+export function resolvePreset(presetFile: ConfigPresetFile, requestedId: string | null): ConfigPreset {
+  if (requestedId) {
+    const requested = presetFile.presets.find(p => p.id === requestedId);
+    if (requested) return requested;
+    console.warn(`⚠️ Unknown preset "${requestedId}", using "${presetFile.defaultPreset}"`);
+  }
+  return presetFile.presets.find(p => p.id === presetFile.defaultPreset) ?? presetFile.presets[0];
+}
+
+/**
+ * Builds the validated config for a preset. Throws ConfigValidationError when the preset is invalid.
+ */
+export function configFromPreset(preset: ConfigPreset): SimulationConfig {
+  const config = createConfig(preset.settings, `Preset "${preset.id}"`);
+  console.log(`🎛️ Using config preset "${preset.name}"`);
+  return config;
+}
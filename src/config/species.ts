@@ -0,0 +1,64 @@
+// Agent species: each one moves, deposits and draws in its own way.
+// The table is uploaded once into a lookup texture; every agent stores its species index in properties.z.
+// Steering values multiply the shared config.steering values, so the tuning panel still moves every species.
+
+export const AGENT_SPECIES = ['ecosystem', 'frontier', 'wanderer', 'scout'] as const;
+export type AgentSpeciesId = typeof AGENT_SPECIES[number];
+
+export interface AgentSpecies {
+  sensorDistance: number; // Multiplies steering.sensorDistance
+  sensorAngle: number; // Multiplies steering.sensorAngleDegrees
+  turnStrength: number; // Multiplies steering.turnStrength
+  speed: number; // Multiplies steering.speed
+  targetPull: number; // Multiplies the pull towards the target; below 1 the agent follows trails more
+  trailWeight: number; // Share of trails.strength deposited
+  pointSize: number; // Rendered size in pixels
+  color: [number, number, number]; // Rendered color, RGB 0.0-1.0
+}
+
+export const SPECIES_TABLE: Record<AgentSpeciesId, AgentSpecies> = {
+  // Bridge agents filling the map, dim and small
+  ecosystem: {
+    sensorDistance: 1.0, sensorAngle: 1.0, turnStrength: 1.0, speed: 1.0, targetPull: 1.0,
+    trailWeight: 0.7, pointSize: 3, color: [0.0, 0.0, 0.0]
+  },
+  // The narrative agents listed in the Ledger
+  frontier: {
+    sensorDistance: 1.0, sensorAngle: 1.0, turnStrength: 1.0, speed: 1.0, targetPull: 1.0,
+    trailWeight: 1.0, pointSize: 8, color: [0.8, 0.3098, 0.2275]
+  },
+  // Slow, curious drifters that mostly follow existing trails
+  wanderer: {
+    sensorDistance: 1.5, sensorAngle: 1.3, turnStrength: 1.8, speed: 0.6, targetPull: 0.4,
+    trailWeight: 0.3, pointSize: 2, color: [0.45, 0.45, 0.45]
+  },
+  // Fast, far-sighted agents that barely turn and head straight for their target
+  scout: {
+    sensorDistance: 2.5, sensorAngle: 0.5, turnStrength: 0.6, speed: 1.6, targetPull: 1.5,
+    trailWeight: 0.5, pointSize: 4, color: [0.063, 0.114, 0.263]
+  }
+};
+
+// Texels per species row in the lookup texture
+export const SPECIES_TEXELS = 3;
+
+export function getSpeciesIndex(id: AgentSpeciesId): number {
+  return AGENT_SPECIES.indexOf(id);
+}
+
+/**
+ * Packs the table into one texture row per species:
+ * (sensorDistance, sensorAngle, turnStrength, speed), (targetPull, trailWeight, pointSize, _), (r, g, b, _)
+ */
+export function packSpeciesTable(): Float32Array {
+  const data = new Float32Array(AGENT_SPECIES.length * SPECIES_TEXELS * 4);
+  AGENT_SPECIES.forEach((id, row) => {
+    const species = SPECIES_TABLE[id];
+    data.set([
+      species.sensorDistance, species.sensorAngle, species.turnStrength, species.speed,
+      species.targetPull, species.trailWeight, species.pointSize, 0.0,
+      ...species.color, 0.0
+    ], row * SPECIES_TEXELS * 4);
+  });
+  return data;
+}
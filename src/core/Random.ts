@@ -0,0 +1,79 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Every random decision in the simulation goes through one instance, so a seed replays a run exactly.
+// Purely visual draws use a derived instance, so they never shift the narrative sequence.
+
+export class Random {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Parses a seed from a URL parameter. Numbers are used directly, any other text is hashed,
+   * and a missing value produces a fresh random seed.
+   */
+  public static parseSeed(value: string | null): number {
+    if (value === null || value.trim() === '') return Random.randomSeed();
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+    // FNV-1a hash, so memorable words work as seeds too
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * A separate sequence named after `stream`, fixed by this instance's seed. Drawing from it leaves this
+   * sequence untouched.
+   */
+  public derive(stream: string): Random {
+    return new Random(Random.parseSeed(`${this.seed}:${stream}`));
+  }
+
+  /**
+   * Returns a float in [0, 1), like Math.random().
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns a float in [min, max).
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Returns an integer in [0, maxExclusive).
+   */
+  public int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Restarts the sequence, by default from the original seed.
+   */
+  public reset(seed: number = this.seed): void {
+    this.state = seed >>> 0;
+  }
+}
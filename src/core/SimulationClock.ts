@@ -0,0 +1,45 @@
+/**
+ * Fixed-timestep clock that decouples the simulation from the display refresh rate.
+ *
+ * Each rendered frame feeds in the real time that has passed; the clock answers how many
+ * fixed simulation steps to run. A 30 Hz, 60 Hz or 144 Hz display therefore plays the
+ * story at the same pace, only with more or fewer rendered frames in between.
+ */
+export class SimulationClock {
+  public readonly STEP_SECONDS = 1 / 60; // Simulated time covered by one step
+  private readonly MAX_FRAME_SECONDS = 0.25; // Longer gaps (background tab, breakpoint) are not caught up
+  private readonly MAX_STEPS_PER_FRAME = 4; // Keeps a slow GPU from falling further behind every frame
+
+  private accumulator: number = 0;
+  private lastFrameTime: number | null = null;
+
+  /**
+   * Registers a rendered frame at `now` (milliseconds, as from performance.now or requestAnimationFrame)
+   * and returns the number of fixed steps the simulation should advance.
+   */
+  public tick(now: number): number {
+    if (this.lastFrameTime === null) this.lastFrameTime = now;
+    const frameSeconds = Math.min((now - this.lastFrameTime) / 1000, this.MAX_FRAME_SECONDS);
+    this.lastFrameTime = now;
+
+    this.accumulator += Math.max(0, frameSeconds);
+    let steps = Math.floor(this.accumulator / this.STEP_SECONDS);
+    this.accumulator -= steps * this.STEP_SECONDS;
+
+    if (steps > this.MAX_STEPS_PER_FRAME) {
+      // Drop the backlog instead of trying to catch up, the story just runs slower for a moment
+      steps = this.MAX_STEPS_PER_FRAME;
+      this.accumulator = 0;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Forgets the last frame time, so the pause before a resume is not simulated.
+   */
+  public reset(): void {
+    this.lastFrameTime = null;
+    this.accumulator = 0;
+  }
+}
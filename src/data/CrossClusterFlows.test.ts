@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CrossClusterFlows } from './CrossClusterFlows';
+
+describe('CrossClusterFlows', () => {
+  it('sums each pair over the eras of the window, busiest first', () => {
+    const flows = new CrossClusterFlows();
+    flows.record('spawned', 0, 1, 2000.2);
+    flows.record('spawned', 0, 1, 2000.9);
+    flows.record('spawned', 0, 1, 2003.5);
+    flows.record('spawned', 2, 1, 2001, 5);
+
+    expect(flows.getActivity('spawned')).toEqual([
+      { sourceCluster: 2, targetCluster: 1, count: 5 },
+      { sourceCluster: 0, targetCluster: 1, count: 3 }
+    ]);
+    expect(flows.getActivity('spawned', 2000, 2000.99)).toEqual([{ sourceCluster: 0, targetCluster: 1, count: 2 }]);
+    expect(flows.getActivity('spawned', 2002, 2010)).toEqual([{ sourceCluster: 0, targetCluster: 1, count: 1 }]);
+  });
+
+  it('keeps directions and kinds apart', () => {
+    const flows = new CrossClusterFlows();
+    flows.record('spawned', 0, 1, 2000);
+    flows.record('spawned', 1, 0, 2000);
+    flows.record('arrived', 0, 1, 2001);
+    flows.record('departed', 0, 1, 2000);
+
+    expect(flows.getCount('spawned', 0, 1)).toBe(1);
+    expect(flows.getCount('spawned', 1, 0)).toBe(1);
+    expect(flows.getCount('arrived', 0, 1)).toBe(1);
+    expect(flows.getCount('arrived', 1, 0)).toBe(0);
+    expect(flows.getCount('departed', 0, 1)).toBe(1);
+    expect(flows.getActivity('arrived')).toEqual([{ sourceCluster: 0, targetCluster: 1, count: 1 }]);
+    expect(flows.getCount('arrived', 0, 1, 2000, 2000)).toBe(0);
+  });
+
+  it('tracks the range of eras and starts over when cleared', () => {
+    const flows = new CrossClusterFlows();
+    expect(flows.getYearRange()).toBeNull();
+
+    flows.record('spawned', 0, 1, 2004.5);
+    flows.record('arrived', 0, 1, 2001.1);
+    expect(flows.getYearRange()).toEqual([2001, 2004]);
+
+    flows.clear();
+    expect(flows.getYearRange()).toBeNull();
+    expect(flows.getActivity('spawned')).toEqual([]);
+  });
+
+  it('drops a range of eras and keeps the rest', () => {
+    const flows = new CrossClusterFlows();
+    for (let year = 2000; year <= 2004; year++) flows.record('spawned', 0, 1, year + 0.5);
+
+    flows.clearYears(2003);
+    expect(flows.getCount('spawned', 0, 1)).toBe(3);
+    expect(flows.getYearRange()).toEqual([2000, 2002]);
+
+    flows.clearYears(2000.7, 2000.9);
+    expect(flows.getCount('spawned', 0, 1)).toBe(2);
+    expect(flows.getYearRange()).toEqual([2001, 2002]);
+
+    flows.clearYears(2001, 2002);
+    expect(flows.getYearRange()).toBeNull();
+  });
+});
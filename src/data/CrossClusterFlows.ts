@@ -0,0 +1,114 @@
+import type { CrossClusterActivity } from './interfaces';
+
+// Source→target counts of the agents the simulation sends between clusters, bucketed by the
+// simulated year (era) they happened in, so any window of years can be summed afterwards.
+// 'spawned' counts agents of every species set out along a bridge. 'departed' and 'arrived' count
+// Frontier journey legs only, setting out and reaching their target, so a multi-hop journey departs
+// and arrives once per leg and the two can be compared directly.
+
+export type FlowKind = 'spawned' | 'departed' | 'arrived';
+
+interface FlowCounts {
+  sourceCluster: number;
+  targetCluster: number;
+  spawned: number;
+  departed: number;
+  arrived: number;
+}
+
+export class CrossClusterFlows {
+  private eras: Map<number, Map<string, FlowCounts>> = new Map(); // Integer year to "source-target" counts
+  private firstYear: number = Infinity;
+  private lastYear: number = -Infinity;
+
+  public record(kind: FlowKind, sourceCluster: number, targetCluster: number, year: number, count: number = 1): void {
+    const era = Math.floor(year);
+    let pairs = this.eras.get(era);
+    if (!pairs) {
+      pairs = new Map();
+      this.eras.set(era, pairs);
+    }
+
+    const key = `${sourceCluster}-${targetCluster}`;
+    let counts = pairs.get(key);
+    if (!counts) {
+      counts = { sourceCluster, targetCluster, spawned: 0, departed: 0, arrived: 0 };
+      pairs.set(key, counts);
+    }
+    counts[kind] += count;
+
+    this.firstYear = Math.min(this.firstYear, era);
+    this.lastYear = Math.max(this.lastYear, era);
+  }
+
+  /**
+   * Summed counts of every pair with activity between startYear and endYear (both eras included),
+   * busiest pair first.
+   */
+  public getActivity(kind: FlowKind, startYear: number = -Infinity, endYear: number = Infinity): CrossClusterActivity[] {
+    const totals = new Map<string, CrossClusterActivity>();
+    const first = Math.floor(startYear);
+    const last = Math.floor(endYear);
+
+    for (const [era, pairs] of this.eras) {
+      if (era < first || era > last) continue;
+      for (const [key, counts] of pairs) {
+        if (counts[kind] === 0) continue;
+        const total = totals.get(key);
+        if (total) {
+          total.count += counts[kind];
+        } else {
+          totals.set(key, { sourceCluster: counts.sourceCluster, targetCluster: counts.targetCluster, count: counts[kind] });
+        }
+      }
+    }
+
+    return Array.from(totals.values()).sort((a, b) =>
+      b.count - a.count || a.sourceCluster - b.sourceCluster || a.targetCluster - b.targetCluster
+    );
+  }
+
+  /**
+   * Count of one pair between startYear and endYear, 0 when nothing happened there.
+   */
+  public getCount(kind: FlowKind, sourceCluster: number, targetCluster: number, startYear: number = -Infinity, endYear: number = Infinity): number {
+    const key = `${sourceCluster}-${targetCluster}`;
+    const first = Math.floor(startYear);
+    const last = Math.floor(endYear);
+    let count = 0;
+    for (const [era, pairs] of this.eras) {
+      if (era < first || era > last) continue;
+      count += pairs.get(key)?.[kind] ?? 0;
+    }
+    return count;
+  }
+
+  /**
+   * First and last era with any activity, null before anything was recorded.
+   */
+  public getYearRange(): [number, number] | null {
+    return this.eras.size > 0 ? [this.firstYear, this.lastYear] : null;
+  }
+
+  /**
+   * Drops the eras between startYear and endYear (both included), so years the simulation plays again
+   * are counted for their latest pass only.
+   */
+  public clearYears(startYear: number, endYear: number = Infinity): void {
+    const first = Math.floor(startYear);
+    const last = Math.floor(endYear);
+    for (const era of Array.from(this.eras.keys())) {
+      if (era >= first && era <= last) this.eras.delete(era);
+    }
+
+    const eras = Array.from(this.eras.keys());
+    this.firstYear = Math.min(Infinity, ...eras);
+    this.lastYear = Math.max(-Infinity, ...eras);
+  }
+
+  public clear(): void {
+    this.eras.clear();
+    this.firstYear = Infinity;
+    this.lastYear = -Infinity;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { YearSample } from './CycleRecorder';
+import { CycleRecorder, seriesToCsv, seriesToJson } from './CycleRecorder';
+
+function sample(year: number, overrides: Partial<YearSample> = {}): YearSample {
+  return {
+    year,
+    activeAgents: 10,
+    agentsBySpecies: { ecosystem: 7, frontier: 1, wanderer: 1, scout: 1 },
+    bridgesInWindow: 4,
+    spawns: 3,
+    frontierDepartures: 2,
+    arrivals: 1,
+    poolCapacity: 100,
+    poolPressure: 0.1,
+    protagonists: [{ id: 0, name: 'Zero' }, { id: 2, name: 'Two' }],
+    clusters: [{ clusterId: 2, name: 'Two', activeProjects: 5, spawned: 3, arrived: 1 }],
+    ...overrides
+  };
+}
+
+describe('CycleRecorder', () => {
+  it('keeps one sample per year, in year order', () => {
+    const recorder = new CycleRecorder();
+    recorder.record(sample(2002));
+    recorder.record(sample(2000));
+    recorder.record(sample(2002, { spawns: 9 }));
+
+    expect(recorder.getSeries().map(row => row.year)).toEqual([2000, 2002]);
+    expect(recorder.getSeries()[1].spawns).toBe(9);
+  });
+
+  it('keeps the finished cycle after a reset', () => {
+    const recorder = new CycleRecorder();
+    recorder.reset();
+    expect(recorder.getLastCycle()).toBeNull();
+
+    recorder.record(sample(2000));
+    recorder.reset();
+    recorder.record(sample(2000, { spawns: 0 }));
+    expect(recorder.size).toBe(1);
+    expect(recorder.getLastCycle()).toEqual([sample(2000)]);
+
+    recorder.reset(); // A cycle that recorded nothing does not replace the last one
+    recorder.reset();
+    expect(recorder.getLastCycle()).toEqual([sample(2000, { spawns: 0 })]);
+  });
+});
+
+describe('series export', () => {
+  it('writes one CSV row per year with a column set per cluster', () => {
+    const csv = seriesToCsv([
+      sample(2000),
+      sample(2001, { clusters: [{ clusterId: 0, name: 'Zero', activeProjects: 2, spawned: 0, arrived: 4 }] })
+    ]);
+    const [header, first, second, end] = csv.split('\n');
+
+    expect(header).toBe(
+      'year,active_agents,agents_ecosystem,agents_frontier,agents_wanderer,agents_scout,bridges_in_window,spawns,frontier_departures,arrivals,' +
+      'pool_capacity,pool_pressure,protagonists,cluster_0_active_projects,cluster_0_spawned,cluster_0_arrived,' +
+      'cluster_2_active_projects,cluster_2_spawned,cluster_2_arrived'
+    );
+    expect(first).toBe('2000,10,7,1,1,1,4,3,2,1,100,0.100,Zero / Two,0,0,0,5,3,1');
+    expect(second).toBe('2001,10,7,1,1,1,4,3,2,1,100,0.100,Zero / Two,2,0,4,0,0,0');
+    expect(end).toBe('');
+  });
+
+  it('quotes names with commas or quotes', () => {
+    const csv = seriesToCsv([sample(2000, { protagonists: [{ id: 1, name: 'Art, "Design"' }] })]);
+    expect(csv.split('\n')[1]).toContain(',"Art, ""Design""",');
+  });
+
+  it('round-trips through JSON', () => {
+    const series = [sample(2000), sample(2001)];
+    expect(JSON.parse(seriesToJson(series))).toEqual(series);
+  });
+});
@@ -0,0 +1,114 @@
+import type { AgentSpeciesId } from '../config/species';
+import { AGENT_SPECIES } from '../config/species';
+
+// Year-by-year series of what the garden did during a cycle, for reporting: one sample per simulated
+// year, taken by the Simulation as the year ends. Revisited years (reverse playback, seeks) replace
+// their earlier sample, so a cycle yields at most one row per year. The last finished cycle is kept
+// after a reset, so it can still be downloaded while the next one runs.
+
+export interface ClusterYearActivity {
+  clusterId: number;
+  name: string;
+  activeProjects: number; // Projects of the cluster in the active window
+  spawned: number; // Agents that set out from the cluster during the year
+  arrived: number; // Frontier journey legs that reached the cluster during the year
+}
+
+export interface YearSample {
+  year: number;
+  activeAgents: number;
+  agentsBySpecies: Record<AgentSpeciesId, number>;
+  bridgesInWindow: number; // Bridges above minSpawnSimilarity in the window the year's spawns drew from
+  spawns: number; // Agents of every species
+  frontierDepartures: number; // Frontier journey legs that set out, to compare with arrivals
+  arrivals: number; // Frontier journey legs that reached their target
+  poolCapacity: number;
+  poolPressure: number; // Share of the agent pool in use at the end of the year, 0.0-1.0
+  protagonists: Array<{ id: number; name: string }>;
+  clusters: ClusterYearActivity[]; // Clusters with active projects or agents, by id
+}
+
+export class CycleRecorder {
+  private samples: Map<number, YearSample> = new Map();
+  private lastCycle: YearSample[] | null = null;
+
+  public record(sample: YearSample): void {
+    this.samples.set(sample.year, sample);
+  }
+
+  /**
+   * Samples of the running cycle in year order.
+   */
+  public getSeries(): YearSample[] {
+    return Array.from(this.samples.values()).sort((a, b) => a.year - b.year);
+  }
+
+  public get size(): number {
+    return this.samples.size;
+  }
+
+  /**
+   * Samples of the cycle before the last reset, null until one finished.
+   */
+  public getLastCycle(): YearSample[] | null {
+    return this.lastCycle;
+  }
+
+  /**
+   * Starts a new cycle; the running one becomes the last cycle if it recorded anything.
+   */
+  public reset(): void {
+    if (this.samples.size > 0) this.lastCycle = this.getSeries();
+    this.samples.clear();
+  }
+}
+
+/**
+ * The series as pretty-printed JSON, one object per year.
+ */
+export function seriesToJson(series: YearSample[]): string {
+  return JSON.stringify(series, null, 2);
+}
+
+/**
+ * The series as CSV, one row per year. Protagonists go into a single column separated by " / ";
+ * every cluster seen anywhere in the series gets its own active projects, spawned and arrived columns.
+ */
+export function seriesToCsv(series: YearSample[]): string {
+  const clusterIds = Array.from(new Set(series.flatMap(sample => sample.clusters.map(cluster => cluster.clusterId))))
+    .sort((a, b) => a - b);
+
+  const header = [
+    'year', 'active_agents', ...AGENT_SPECIES.map(species => `agents_${species}`),
+    'bridges_in_window', 'spawns', 'frontier_departures', 'arrivals', 'pool_capacity', 'pool_pressure', 'protagonists',
+    ...clusterIds.flatMap(id => [`cluster_${id}_active_projects`, `cluster_${id}_spawned`, `cluster_${id}_arrived`])
+  ];
+
+  const rows = series.map(sample => {
+    const clusters = new Map(sample.clusters.map(cluster => [cluster.clusterId, cluster]));
+    return [
+      sample.year,
+      sample.activeAgents,
+      ...AGENT_SPECIES.map(species => sample.agentsBySpecies[species] ?? 0),
+      sample.bridgesInWindow,
+      sample.spawns,
+      sample.frontierDepartures,
+      sample.arrivals,
+      sample.poolCapacity,
+      sample.poolPressure.toFixed(3),
+      sample.protagonists.map(protagonist => protagonist.name).join(' / '),
+      ...clusterIds.flatMap(id => {
+        const cluster = clusters.get(id);
+        return [cluster?.activeProjects ?? 0, cluster?.spawned ?? 0, cluster?.arrived ?? 0];
+      })
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Quotes fields with commas, quotes or line breaks, as cluster names may have them
+function csvField(value: string | number): string {
+  const text = value.toString();
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
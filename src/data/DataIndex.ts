@@ -0,0 +1,179 @@
+import type { Bridge, ClusterData, ClusteredData, Project } from './interfaces';
+
+/**
+ * Lookup structures built once after loading, so per-frame and per-spawn queries
+ * no longer scan every project or bridge.
+ *
+ * All years in the data are integers (enforced by validation), so a time window
+ * [start, end] with fractional bounds covers the integer years ceil(start)..floor(end).
+ */
+export class DataIndex {
+  public readonly projects: Project[];
+  public readonly bridges: Bridge[];
+
+  private projectsById: Map<string, Project> = new Map();
+  private clustersById: Map<number, ClusterData> = new Map();
+  private bridgesByYear: Map<number, Bridge[]> = new Map();
+  private projectsByClusterYear: Map<number, Map<number, Project[]>> = new Map();
+  private projectCountsByYear: Map<number, number> = new Map();
+
+  // Per-cluster cumulative project counts: cumulative[i] = projects with year <= minYear + i
+  private cumulativeClusterCounts: Map<number, Int32Array> = new Map();
+
+  public readonly minYear: number;
+  public readonly maxYear: number;
+
+  constructor(data: ClusteredData, bridges: Bridge[]) {
+    this.projects = data.projects;
+    this.bridges = bridges;
+
+    let minYear = Infinity;
+    let maxYear = -Infinity;
+
+    for (const cluster of data.clusters) {
+      this.clustersById.set(cluster.id, cluster);
+    }
+
+    for (const project of data.projects) {
+      // First occurrence wins for duplicate ids, matching the validation report
+      if (!this.projectsById.has(project.id)) {
+        this.projectsById.set(project.id, project);
+      }
+
+      let byYear = this.projectsByClusterYear.get(project.cluster_id);
+      if (!byYear) {
+        byYear = new Map();
+        this.projectsByClusterYear.set(project.cluster_id, byYear);
+      }
+      const bucket = byYear.get(project.year);
+      if (bucket) {
+        bucket.push(project);
+      } else {
+        byYear.set(project.year, [project]);
+      }
+
+      this.projectCountsByYear.set(project.year, (this.projectCountsByYear.get(project.year) ?? 0) + 1);
+      minYear = Math.min(minYear, project.year);
+      maxYear = Math.max(maxYear, project.year);
+    }
+
+    for (const bridge of bridges) {
+      const bucket = this.bridgesByYear.get(bridge.year);
+      if (bucket) {
+        bucket.push(bridge);
+      } else {
+        this.bridgesByYear.set(bridge.year, [bridge]);
+      }
+      minYear = Math.min(minYear, bridge.year);
+      maxYear = Math.max(maxYear, bridge.year);
+    }
+
+    this.minYear = Number.isFinite(minYear) ? minYear : 0;
+    this.maxYear = Number.isFinite(maxYear) ? maxYear : 0;
+
+    this.buildCumulativeCounts();
+  }
+
+  private buildCumulativeCounts(): void {
+    const length = this.maxYear - this.minYear + 1;
+    for (const [clusterId, byYear] of this.projectsByClusterYear) {
+      const cumulative = new Int32Array(length);
+      let running = 0;
+      for (let i = 0; i < length; i++) {
+        running += byYear.get(this.minYear + i)?.length ?? 0;
+        cumulative[i] = running;
+      }
+      this.cumulativeClusterCounts.set(clusterId, cumulative);
+    }
+  }
+
+  // Integer year bounds of a window, clamped to the data range. Returns null for an empty window.
+  private yearBounds(windowStart: number, windowEnd: number): [number, number] | null {
+    const first = Math.max(Math.ceil(windowStart), this.minYear);
+    const last = Math.min(Math.floor(windowEnd), this.maxYear);
+    return first <= last ? [first, last] : null;
+  }
+
+  public getProject(id: string | number): Project | undefined {
+    return this.projectsById.get(id.toString());
+  }
+
+  public getCluster(id: number): ClusterData | undefined {
+    return this.clustersById.get(id);
+  }
+
+  /**
+   * Returns a new array of the bridges whose year lies in [windowStart, windowEnd],
+   * optionally only those above a similarity threshold. Callers may sort or slice it freely.
+   */
+  public getBridgesInWindow(windowStart: number, windowEnd: number, minSimilarity: number = -Infinity): Bridge[] {
+    const bounds = this.yearBounds(windowStart, windowEnd);
+    if (!bounds) return [];
+
+    const result: Bridge[] = [];
+    for (let year = bounds[0]; year <= bounds[1]; year++) {
+      const bucket = this.bridgesByYear.get(year);
+      if (!bucket) continue;
+      for (const bridge of bucket) {
+        if (bridge.similarity_score > minSimilarity) result.push(bridge);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Number of projects of a cluster whose year lies in [windowStart, windowEnd]. Constant time.
+   */
+  public countActiveProjects(clusterId: number, windowStart: number, windowEnd: number): number {
+    const bounds = this.yearBounds(windowStart, windowEnd);
+    const cumulative = this.cumulativeClusterCounts.get(clusterId);
+    if (!bounds || !cumulative) return 0;
+
+    const lastIndex = bounds[1] - this.minYear;
+    const firstIndex = bounds[0] - this.minYear;
+    return cumulative[lastIndex] - (firstIndex > 0 ? cumulative[firstIndex - 1] : 0);
+  }
+
+  /**
+   * Projects of a cluster whose year lies in [windowStart, windowEnd].
+   */
+  public getProjectsInCluster(clusterId: number, windowStart: number, windowEnd: number): Project[] {
+    const bounds = this.yearBounds(windowStart, windowEnd);
+    const byYear = this.projectsByClusterYear.get(clusterId);
+    if (!bounds || !byYear) return [];
+
+    const result: Project[] = [];
+    for (let year = bounds[0]; year <= bounds[1]; year++) {
+      const bucket = byYear.get(year);
+      if (bucket) result.push(...bucket);
+    }
+    return result;
+  }
+
+  /**
+   * Ids of clusters with at least one project in [windowStart, windowEnd], in cluster order.
+   */
+  public getActiveClusterIds(windowStart: number, windowEnd: number): number[] {
+    const active: number[] = [];
+    for (const clusterId of this.clustersById.keys()) {
+      if (this.countActiveProjects(clusterId, windowStart, windowEnd) > 0) {
+        active.push(clusterId);
+      }
+    }
+    return active;
+  }
+
+  public getProjectCountForYear(year: number): number {
+    return this.projectCountsByYear.get(year) ?? 0;
+  }
+
+  /**
+   * Number of bridges in a year, optionally only those leaving one source cluster.
+   */
+  public getBridgeCountForYear(year: number, sourceClusterId?: number): number {
+    const bucket = this.bridgesByYear.get(year);
+    if (!bucket) return 0;
+    if (sourceClusterId === undefined) return bucket.length;
+    return bucket.filter(bridge => bridge.source_cluster === sourceClusterId).length;
+  }
+}
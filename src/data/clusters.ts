@@ -0,0 +1,83 @@
+import type { Project, ClusterData, ClusteredData, ClusterNameMap } from './interfaces';
+
+const MAX_SHORT_LABEL_WORDS = 5;
+
+/**
+ * Groups validated projects into clusters and merges in the curated cluster names.
+ * Shared by the JSON loader and the CSV / JSON Lines importers.
+ */
+export function buildClusteredData(projects: Project[], clusterNames: ClusterNameMap = {}): ClusteredData {
+  // Generate clusters from project data
+  const clusterMap = new Map<number, Project[]>();
+  projects.forEach(project => {
+    if (!clusterMap.has(project.cluster_id)) {
+      clusterMap.set(project.cluster_id, []);
+    }
+    clusterMap.get(project.cluster_id)!.push(project);
+  });
+
+  const clusters: ClusterData[] = [];
+  clusterMap.forEach((clusterProjects, clusterId) => {
+    // Calculate centroid from project positions
+    const centroidX = clusterProjects.reduce((sum, p) => sum + p.x, 0) / clusterProjects.length;
+    const centroidY = clusterProjects.reduce((sum, p) => sum + p.y, 0) / clusterProjects.length;
+
+    // Get year range
+    const years = clusterProjects.map(p => p.year);
+    const yearRange: [number, number] = [Math.min(...years), Math.max(...years)];
+
+    // Get top themes (simplified)
+    const allThemes = clusterProjects.flatMap(p => p.themes);
+    const topThemes = [...new Set(allThemes)].slice(0, 3);
+
+    clusters.push({
+      id: clusterId,
+      centroid768d: [], // Not needed for visualization
+      centroidX,
+      centroidY,
+      projectCount: clusterProjects.length,
+      yearRange,
+      topTerms: topThemes,
+      ...resolveClusterNames(clusterId, topThemes, clusterNames)
+    });
+  });
+
+  // Convert cluster_id to clusterId for compatibility, and coerce ids to the declared string type
+  const normalizedProjects = projects.map(p => ({
+    ...p,
+    id: String(p.id),
+    clusterId: p.cluster_id
+  }));
+
+  return {
+    projects: normalizedProjects,
+    clusters
+  };
+}
+
+/**
+ * Merges the curated name for a cluster with its computed terms.
+ * The short label is the curated one if given, otherwise the display name truncated to a few words.
+ */
+function resolveClusterNames(
+  clusterId: number,
+  topTerms: string[],
+  clusterNames: ClusterNameMap
+): Pick<ClusterData, 'displayName' | 'shortLabel' | 'description'> {
+  const entry = clusterNames[clusterId.toString()];
+  const curated = typeof entry === 'string' ? { name: entry } : entry;
+
+  const displayName = curated?.name?.trim() || topTerms[0] || `Cluster ${clusterId}`;
+
+  let shortLabel = curated?.shortLabel?.trim() || displayName;
+  const words = shortLabel.split(' ');
+  if (words.length > MAX_SHORT_LABEL_WORDS) {
+    shortLabel = words.slice(0, MAX_SHORT_LABEL_WORDS).join(' ') + '...';
+  }
+
+  return {
+    displayName,
+    shortLabel,
+    description: curated?.description
+  };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { Project } from './interfaces';
+import {
+  importBridgeRecords,
+  importBridges,
+  importClusteredData,
+  importProjectRecords,
+  inferDataFormat,
+  parseCSV,
+  parseCSVRecords,
+  parseJSONLines
+} from './importers';
+import { DataValidationError } from './validation';
+
+const PROJECTS_CSV = [
+  'id,title,year,themes,x,y,cluster_id',
+  '1,"Soft Robots, Hard Questions",2001,robots; bodies,1.5,-2,0',
+  '2,"The ""Listening"" Room",2002,sound,3,4,1',
+  '3,Plain Title,2002,sound;space,5,6,1'
+].join('\n');
+
+describe('parseCSV', () => {
+  it('splits rows and cells', () => {
+    expect(parseCSV('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps delimiters, doubled quotes and line breaks inside quoted cells', () => {
+    expect(parseCSV('"a,b","say ""hi""","two\nlines"\nx,y,z')).toEqual([
+      ['a,b', 'say "hi"', 'two\nlines'],
+      ['x', 'y', 'z']
+    ]);
+  });
+
+  it('keeps empty cells, including quoted ones and a trailing one', () => {
+    expect(parseCSV('a,,""\n,b,')).toEqual([['a', '', ''], ['', 'b', '']]);
+  });
+
+  it('treats a quote inside an unquoted cell as text', () => {
+    expect(parseCSV('5" screen,b')).toEqual([['5" screen', 'b']]);
+  });
+
+  it('reads CRLF and LF line endings, with or without a final line break', () => {
+    expect(parseCSV('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a,b\r1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('strips a byte order mark and drops blank lines', () => {
+    expect(parseCSV('﻿a,b\n\n  \n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('uses another delimiter when asked', () => {
+    expect(parseCSV('a;"b;c"\t1', ';')).toEqual([['a', 'b;c\t1']]);
+    expect(parseCSV('a\tb,c', '\t')).toEqual([['a', 'b,c']]);
+  });
+
+  it('rejects a file that ends inside a quoted cell', () => {
+    expect(() => parseCSV('a,"b\n1,2')).toThrow('CSV ends inside a quoted cell');
+  });
+});
+
+describe('parseCSVRecords', () => {
+  it('keys each row by the trimmed header names', () => {
+    expect(parseCSVRecords(' id , title \n1,One\n2')).toEqual([
+      { id: '1', title: 'One' },
+      { id: '2', title: undefined }
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCSVRecords('')).toEqual([]);
+  });
+
+  it('rejects rows with more cells than the header, naming the line', () => {
+    expect(() => parseCSVRecords('id,title\n1,One\n2,Two,extra')).toThrow('CSV row 3 has 3 cells but the header has 2 columns');
+  });
+});
+
+describe('parseJSONLines', () => {
+  it('parses one object per line and skips blank lines', () => {
+    expect(parseJSONLines('{"id":1}\r\n\n{"id":2}\n')).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('names the line that is not valid JSON', () => {
+    expect(() => parseJSONLines('{"id":1}\n\n{"id":')).toThrow(/^JSON Lines line 3 is not valid JSON/);
+  });
+});
+
+describe('inferDataFormat', () => {
+  it('reads the extension, ignoring case and query strings', () => {
+    expect(inferDataFormat('/data/projects.CSV?v=2')).toBe('csv');
+    expect(inferDataFormat('bridges.jsonl')).toBe('jsonl');
+    expect(inferDataFormat('bridges.ndjson#top')).toBe('jsonl');
+    expect(inferDataFormat('projects.json')).toBe('json');
+    expect(inferDataFormat('projects')).toBe('json');
+  });
+});
+
+describe('importProjectRecords', () => {
+  it('coerces CSV cells into Project fields', () => {
+    const [first, second] = importProjectRecords(PROJECTS_CSV, 'csv') as Project[];
+    expect(first).toEqual({
+      id: '1', title: 'Soft Robots, Hard Questions', year: 2001, themes: ['robots', 'bodies'], x: 1.5, y: -2, cluster_id: 0
+    });
+    expect(second.title).toBe('The "Listening" Room');
+  });
+
+  it('splits embeddings into numbers and leaves empty cells out', () => {
+    const csv = 'id,title,year,themes,x,y,cluster_id,embedding\n1,One,2001,,1,2,0,0.5; -1;2e-3\n2,Two,,a,1,2,0,';
+    const [first, second] = importProjectRecords(csv, 'csv') as Array<Record<string, unknown>>;
+    expect(first.embedding).toEqual([0.5, -1, 0.002]);
+    expect(first.themes).toEqual([]);
+    expect(second).not.toHaveProperty('year');
+    expect(second).not.toHaveProperty('embedding');
+  });
+
+  it('passes values that are not numbers through for validation to report', () => {
+    const [record] = importProjectRecords('id,title,year,themes,x,y,cluster_id\n1,One,soon,a,1,2,zero', 'csv') as Array<Record<string, unknown>>;
+    expect(record.year).toBe('soon');
+    expect(record.cluster_id).toBe('zero');
+  });
+
+  it('follows column mappings and delimiters', () => {
+    const csv = 'key;name;date;tags;px;py;group\n7;Seven;2005;a|b;1;2;3';
+    const [record] = importProjectRecords(csv, 'csv', {
+      delimiter: ';',
+      listDelimiter: '|',
+      columns: { id: 'key', title: 'name', year: 'date', themes: 'tags', x: 'px', y: 'py', cluster_id: 'group' }
+    }) as Project[];
+    expect(record).toEqual({ id: '7', title: 'Seven', year: 2005, themes: ['a', 'b'], x: 1, y: 2, cluster_id: 3 });
+  });
+
+  it('coerces JSON Lines values and returns JSON files as they are', () => {
+    const [record] = importProjectRecords('{"id":4,"title":" Four ","year":"2003","themes":"a;b","x":1,"y":2,"cluster_id":"1"}', 'jsonl') as Project[];
+    expect(record).toEqual({ id: '4', title: 'Four', year: 2003, themes: ['a', 'b'], x: 1, y: 2, cluster_id: 1 });
+
+    const json = [{ id: '1', extra: true }];
+    expect(importProjectRecords(JSON.stringify(json), 'json')).toEqual(json);
+  });
+});
+
+describe('importBridgeRecords', () => {
+  it('coerces every bridge field to a number', () => {
+    const csv = 'project_id,year,source_cluster,target_cluster,similarity_score\n1,2001,0,1,0.82';
+    expect(importBridgeRecords(csv, 'csv')).toEqual([
+      { project_id: 1, year: 2001, source_cluster: 0, target_cluster: 1, similarity_score: 0.82 }
+    ]);
+  });
+});
+
+describe('importClusteredData and importBridges', () => {
+  it('import a valid CSV dataset', () => {
+    const data = importClusteredData(PROJECTS_CSV, 'csv', {}, { 1: 'Sound' });
+    expect(data.projects).toHaveLength(3);
+    expect(data.clusters.map(cluster => cluster.id).sort()).toEqual([0, 1]);
+
+    const bridges = importBridges(
+      'project_id,year,source_cluster,target_cluster,similarity_score\n1,2001,0,1,0.82',
+      'csv',
+      data.projects
+    );
+    expect(bridges).toEqual([{ project_id: 1, year: 2001, source_cluster: 0, target_cluster: 1, similarity_score: 0.82 }]);
+  });
+
+  it('throw a DataValidationError with the report when records are invalid', () => {
+    const csv = 'id,title,year,themes,x,y,cluster_id\n1,One,soon,a,1,2,0';
+    let error: unknown;
+    try {
+      importClusteredData(csv, 'csv');
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(DataValidationError);
+    expect((error as DataValidationError).report.issues.some(issue => issue.field === 'year')).toBe(true);
+  });
+});
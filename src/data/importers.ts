@@ -0,0 +1,280 @@
+// Importers for spreadsheet-friendly formats (CSV and JSON Lines).
+// They only parse and coerce records into the JSON shapes of Project and Bridge; the result still
+// goes through validation, so a wrong column mapping surfaces as a readable report rather than NaNs.
+
+import type {
+  Bridge,
+  BridgeColumnMapping,
+  ClusteredData,
+  ClusterNameMap,
+  DataFormat,
+  Project,
+  ProjectColumnMapping,
+  TabularImportOptions
+} from './interfaces';
+import { buildClusteredData } from './clusters';
+import { DataValidationError, validateBridges, validateProjects } from './validation';
+import type { ValidationOptions } from './validation';
+
+const DEFAULT_PROJECT_COLUMNS: ProjectColumnMapping = {
+  id: 'id',
+  title: 'title',
+  year: 'year',
+  themes: 'themes',
+  x: 'x',
+  y: 'y',
+  cluster_id: 'cluster_id',
+  embedding: 'embedding'
+};
+
+const DEFAULT_BRIDGE_COLUMNS: BridgeColumnMapping = {
+  project_id: 'project_id',
+  year: 'year',
+  source_cluster: 'source_cluster',
+  target_cluster: 'target_cluster',
+  similarity_score: 'similarity_score'
+};
+
+const DEFAULT_DELIMITER = ',';
+const DEFAULT_LIST_DELIMITER = ';';
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Infers the data format from a file name or URL, ignoring any query string.
+ */
+export function inferDataFormat(path: string): DataFormat {
+  const cleanPath = path.split(/[?#]/)[0].toLowerCase();
+  if (cleanPath.endsWith('.csv')) return 'csv';
+  if (cleanPath.endsWith('.jsonl') || cleanPath.endsWith('.ndjson')) return 'jsonl';
+  return 'json';
+}
+
+/**
+ * Parses CSV text into rows of cells. Supports quoted cells containing delimiters,
+ * line breaks and doubled quotes, and both LF and CRLF line endings.
+ */
+export function parseCSV(text: string, delimiter: string = DEFAULT_DELIMITER): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV ends inside a quoted cell');
+  }
+
+  // Flush the last row unless the file ended with a line break
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => !(r.length === 1 && r[0].trim() === ''));
+}
+
+/**
+ * Parses CSV text with a header row into one record per line, keyed by header name.
+ */
+export function parseCSVRecords(text: string, delimiter: string = DEFAULT_DELIMITER): RawRecord[] {
+  const [header, ...rows] = parseCSV(text, delimiter);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  return rows.map((cells, rowIndex) => {
+    if (cells.length > columns.length) {
+      throw new Error(`CSV row ${rowIndex + 2} has ${cells.length} cells but the header has ${columns.length} columns`);
+    }
+    const record: RawRecord = {};
+    columns.forEach((column, index) => {
+      record[column] = cells[index];
+    });
+    return record;
+  });
+}
+
+/**
+ * Parses JSON Lines text (one JSON object per line). Blank lines are skipped.
+ */
+export function parseJSONLines(text: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line) as RawRecord);
+    } catch (error) {
+      throw new Error(`JSON Lines line ${index + 1} is not valid JSON: ${(error as Error).message}`);
+    }
+  });
+  return records;
+}
+
+// --- Field coercion ---
+// Values that cannot be coerced are passed through unchanged so validation reports them.
+
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  const number = Number(trimmed);
+  return Number.isNaN(number) ? value : number;
+}
+
+function coerceString(value: unknown): unknown {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+function coerceList(value: unknown, listDelimiter: string): unknown {
+  if (typeof value !== 'string') return value;
+  return value.split(listDelimiter).map(item => item.trim()).filter(item => item !== '');
+}
+
+// An empty cell means no embedding rather than an empty one
+function coerceNumberList(value: unknown, listDelimiter: string): unknown {
+  const list = coerceList(value, listDelimiter);
+  if (!Array.isArray(list)) return list;
+  return list.length > 0 ? list.map(coerceNumber) : undefined;
+}
+
+// Copies a mapped column into the record, leaving the field out entirely when the column is empty
+function assign(target: RawRecord, field: string, value: unknown): void {
+  if (value !== undefined && value !== '') target[field] = value;
+}
+
+function normalizeProjectRecord(record: RawRecord, columns: ProjectColumnMapping, listDelimiter: string): RawRecord {
+  const project: RawRecord = {};
+  assign(project, 'id', coerceString(record[columns.id]));
+  assign(project, 'title', coerceString(record[columns.title]));
+  assign(project, 'year', coerceNumber(record[columns.year]));
+  assign(project, 'themes', record[columns.themes] === undefined ? [] : coerceList(record[columns.themes], listDelimiter));
+  assign(project, 'x', coerceNumber(record[columns.x]));
+  assign(project, 'y', coerceNumber(record[columns.y]));
+  assign(project, 'cluster_id', coerceNumber(record[columns.cluster_id]));
+  assign(project, 'embedding', coerceNumberList(record[columns.embedding], listDelimiter));
+  return project;
+}
+
+function normalizeBridgeRecord(record: RawRecord, columns: BridgeColumnMapping): RawRecord {
+  const bridge: RawRecord = {};
+  assign(bridge, 'project_id', coerceNumber(record[columns.project_id]));
+  assign(bridge, 'year', coerceNumber(record[columns.year]));
+  assign(bridge, 'source_cluster', coerceNumber(record[columns.source_cluster]));
+  assign(bridge, 'target_cluster', coerceNumber(record[columns.target_cluster]));
+  assign(bridge, 'similarity_score', coerceNumber(record[columns.similarity_score]));
+  return bridge;
+}
+
+function parseRecords(text: string, format: DataFormat, delimiter: string): unknown {
+  switch (format) {
+    case 'csv':
+      return parseCSVRecords(text, delimiter);
+    case 'jsonl':
+      return parseJSONLines(text);
+    case 'json':
+      return JSON.parse(text);
+  }
+}
+
+/**
+ * Parses a projects file in any supported format into unvalidated Project-shaped records.
+ * JSON files are returned as-is, since they already use the Project field names.
+ */
+export function importProjectRecords(
+  text: string,
+  format: DataFormat,
+  options: TabularImportOptions<ProjectColumnMapping> = {}
+): unknown {
+  const records = parseRecords(text, format, options.delimiter ?? DEFAULT_DELIMITER);
+  if (format === 'json') return records;
+
+  const columns = { ...DEFAULT_PROJECT_COLUMNS, ...options.columns };
+  const listDelimiter = options.listDelimiter ?? DEFAULT_LIST_DELIMITER;
+  return (records as RawRecord[]).map(record => normalizeProjectRecord(record, columns, listDelimiter));
+}
+
+/**
+ * Parses a bridges file in any supported format into unvalidated Bridge-shaped records.
+ */
+export function importBridgeRecords(
+  text: string,
+  format: DataFormat,
+  options: TabularImportOptions<BridgeColumnMapping> = {}
+): unknown {
+  const records = parseRecords(text, format, options.delimiter ?? DEFAULT_DELIMITER);
+  if (format === 'json') return records;
+
+  const columns = { ...DEFAULT_BRIDGE_COLUMNS, ...options.columns };
+  return (records as RawRecord[]).map(record => normalizeBridgeRecord(record, columns));
+}
+
+/**
+ * Imports and validates a projects file, then groups it into clusters.
+ * Throws DataValidationError when the records do not form a valid dataset.
+ */
+export function importClusteredData(
+  text: string,
+  format: DataFormat,
+  options: TabularImportOptions<ProjectColumnMapping> = {},
+  clusterNames: ClusterNameMap = {},
+  validationOptions: ValidationOptions = {}
+): ClusteredData {
+  const records = importProjectRecords(text, format, options);
+  const report = validateProjects(records, validationOptions);
+  if (!report.valid) throw new DataValidationError(report);
+  return buildClusteredData(records as Project[], clusterNames);
+}
+
+/**
+ * Imports and validates a bridges file against already imported projects.
+ * Throws DataValidationError when the records do not form a valid dataset.
+ */
+export function importBridges(
+  text: string,
+  format: DataFormat,
+  projects: Project[],
+  options: TabularImportOptions<BridgeColumnMapping> = {},
+  validationOptions: ValidationOptions = {}
+): Bridge[] {
+  const records = importBridgeRecords(text, format, options);
+  const report = validateBridges(records, projects, validationOptions);
+  if (!report.valid) throw new DataValidationError(report);
+  return records as Bridge[];
+}
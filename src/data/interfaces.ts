@@ -1,11 +1,13 @@
 // Centralized TypeScript interfaces for the Semantic Garden application
 
+import type { AgentSpeciesId } from '../config/species';
+
 export interface Project {
   id: string;
   title: string;
   year: number;
   themes: string[];
-  embedding: number[];
+  embedding?: number[]; // Not present in every dataset
   x: number;
   y: number;
   cluster_id: number;
@@ -20,8 +22,21 @@ export interface ClusterData {
   projectCount: number;
   yearRange: [number, number];
   topTerms: string[];
+  displayName: string; // Curated cluster name, falls back to the first computed term
+  shortLabel: string; // Compact name for badges and directive nouns
+  description?: string;
+}
+
+// Human-curated cluster names keyed by cluster id, e.g. cluster_map_static-kmeans.json.
+// Values are either a plain name or an entry with optional label and description.
+export interface ClusterNameEntry {
+  name: string;
+  shortLabel?: string;
+  description?: string;
 }
 
+export type ClusterNameMap = Record<string, string | ClusterNameEntry>;
+
 export interface ClusteredData {
   projects: Project[];
   clusters: ClusterData[];
@@ -62,12 +77,15 @@ export interface AgentSpawnData {
   vy: number;
   targetClusterX: number;
   targetClusterY: number;
+  targetProjectId?: string; // Set when the agent heads to a project rather than the centroid
   age: number;
   maxAge: number;
   spawnYear: number; // NEW: Track when this agent was born in simulation time
   // Hierarchy properties
   isFrontier: boolean; // true = Frontier agent (bright, visible), false = Ecosystem agent (dim)
+  species: AgentSpeciesId; // How the agent moves and looks, 'frontier' for every Frontier agent
   brightness: number; // 0.0-1.0, visual prominence
+  bridgeStrength: number; // 0.0-1.0, the bridge's similarity_score above the spawn threshold; strong bridges move faster and straighter
   // Trail color properties for subtle "dye" effect
   clusterHue: number; // 0.0-360.0, hue for cluster-based trail coloring
   // Label data (only used for Frontier agents)
@@ -78,12 +96,49 @@ export interface AgentSpawnData {
   projectTitle?: string; // Title of the project this agent represents
   sourceClusterName?: string; // Name/subject of the source cluster
   sourceClusterColor?: string; // Color of the source cluster (if protagonist)
+  targetClusterName?: string; // Name/subject of the target cluster
+  score?: FrontierScore; // Breakdown of the bridge score that picked this journey
+}
+
+// Why a bridge was chosen for a Frontier journey: each weighted component of its score
+export interface ScoreComponent {
+  id: string;
+  label: string; // Short name shown in the Ledger
+  value: number; // Raw component value, 0.0-1.0
+  weight: number; // Weight from config.scoring
+}
+
+export interface FrontierScore {
+  scorer: string; // Id of the scorer that produced it
+  total: number; // Sum of value * weight over the components
+  components: ScoreComponent[];
+}
+
+// A cluster a Frontier journey passes through, for the Ledger itinerary
+export interface JourneyStop {
+  clusterId: number;
+  name: string;
+}
+
+// Follow-up bridge of a multi-hop Frontier journey, taken from the cluster the agent arrived in
+export interface FrontierJourneyLeg {
+  targetClusterId: number;
+  targetClusterName: string;
+  targetX: number;
+  targetY: number;
+  targetProjectId?: string;
+  bridgeStrength: number; // Of the follow-up bridge, see AgentSpawnData
+  directive_noun: string;
+  maxAge: number; // Fresh lifespan for the new leg, in seconds
+  startYear: number; // The leg gets its own active window from this year
+  score: FrontierScore;
 }
 
 // CPU Mirror for Frontier agents (for label rendering)
 export interface FrontierAgentMirror {
   targetY: number;
   targetX: number;
+  targetProjectId?: string; // Set when the agent heads to a project rather than the centroid
   id: number; // Index in GPU texture
   x: number;
   y: number;
@@ -98,6 +153,8 @@ export interface FrontierAgentMirror {
   projectTitle: string; // Title of the project this agent represents
   sourceClusterName: string; // Name/subject of the source cluster
   sourceClusterColor: string; // Color of the source cluster (if protagonist)
+  score?: FrontierScore; // Breakdown of the bridge score that picked the current leg
+  itinerary: JourneyStop[]; // Source cluster, then the target of every leg so far
   isActive: boolean;
 }
 
@@ -122,4 +179,59 @@ export interface Bridge {
     source_cluster: number,
     target_cluster: number,
     similarity_score: number
-}
\ No newline at end of file
+}
+// Dataset manifest (public/datasets.json) - describes which files make up each selectable archive
+export interface DatasetDescriptor {
+  id: string; // Used in the ?dataset= URL parameter
+  name: string; // Shown in the dataset picker
+  projects: string; // URL of the projects file
+  bridges: string; // URL of the bridges file
+  clusterNames?: string; // URL of the curated cluster name map
+  yearRange?: [number, number]; // Overrides the timeline otherwise derived from the data's years
+  palette?: string[]; // Protagonist cluster colors
+  protagonistEras?: ProtagonistEra[]; // Curated protagonists, used by the 'curated' strategy
+  storyboard?: string; // URL of an authored storyboard (chapters, title cards, forced protagonists)
+  format?: DataFormat; // Overrides the format inferred from the file extensions
+  projectsImport?: TabularImportOptions<ProjectColumnMapping>; // Only used for CSV / JSON Lines files
+  bridgesImport?: TabularImportOptions<BridgeColumnMapping>;
+}
+
+// Clusters a curator chose as protagonists for a range of years (inclusive)
+export interface ProtagonistEra {
+  startYear: number;
+  endYear: number;
+  clusters: number[]; // Cluster ids in palette order
+}
+
+export type DataFormat = 'json' | 'csv' | 'jsonl';
+
+// Column (or JSON Lines key) that holds each field, defaults to the field name itself
+export interface ProjectColumnMapping {
+  id: string;
+  title: string;
+  year: string;
+  themes: string;
+  x: string;
+  y: string;
+  cluster_id: string;
+  embedding: string;
+}
+
+export interface BridgeColumnMapping {
+  project_id: string;
+  year: string;
+  source_cluster: string;
+  target_cluster: string;
+  similarity_score: string;
+}
+
+export interface TabularImportOptions<TMapping> {
+  columns?: Partial<TMapping>;
+  delimiter?: string; // CSV field delimiter, defaults to ","
+  listDelimiter?: string; // Separates themes and embedding values inside one cell, defaults to ";"
+}
+
+export interface DatasetManifest {
+  defaultDataset: string;
+  datasets: DatasetDescriptor[];
+}
@@ -1,62 +1,82 @@
-import type { Project, ClusterData, ClusteredData, Bridge } from './interfaces';
+import type { Project, ClusteredData, Bridge, ClusterNameMap, DatasetDescriptor, DatasetManifest } from './interfaces';
+import { DataValidationError, logValidationReport, validateBridges, validateClusterNames, validateProjects } from './validation';
+import type { ValidationOptions } from './validation';
+import { buildClusteredData } from './clusters';
+import { importBridgeRecords, importProjectRecords, inferDataFormat } from './importers';
 
-export async function loadData(): Promise<ClusteredData> {
+const MANIFEST_URL = '/datasets.json';
+
+/**
+ * Loads the dataset manifest listing every selectable archive.
+ */
+export async function loadManifest(): Promise<DatasetManifest> {
   try {
-    const response = await fetch('/thesis_analysis_kmeans.json');
-    
+    const response = await fetch(MANIFEST_URL);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
-    
-    const projects = await response.json() as Project[];
-    console.log(`🚀 Loaded ${projects.length} projects`);
-    
-    // Generate clusters from project data
-    const clusterMap = new Map<number, Project[]>();
-    projects.forEach(project => {
-      if (!clusterMap.has(project.cluster_id)) {
-        clusterMap.set(project.cluster_id, []);
+    const manifest = await response.json() as DatasetManifest;
+
+    if (!Array.isArray(manifest.datasets) || manifest.datasets.length === 0) {
+      throw new Error(`${MANIFEST_URL} does not list any datasets`);
+    }
+    for (const dataset of manifest.datasets) {
+      if (!dataset.id || !dataset.projects || !dataset.bridges) {
+        throw new Error(`Dataset "${dataset.id ?? dataset.name}" in ${MANIFEST_URL} needs an id, a projects file and a bridges file`);
+      }
+      for (const era of dataset.protagonistEras ?? []) {
+        if (typeof era.startYear !== 'number' || typeof era.endYear !== 'number' || !Array.isArray(era.clusters)) {
+          throw new Error(`Dataset "${dataset.id}" in ${MANIFEST_URL} has a protagonist era without startYear, endYear and a clusters list`);
+        }
       }
-      clusterMap.get(project.cluster_id)!.push(project);
-    });
+    }
+
+    console.log(`🗂️ Loaded manifest with ${manifest.datasets.length} dataset(s)`);
+    return manifest;
+  } catch (error) {
+    console.error('❌ Failed to load dataset manifest:', error);
+    throw error;
+  }
+}
+
+/**
+ * Picks the requested dataset from the manifest, falling back to the manifest's default.
+ */
+export function resolveDataset(manifest: DatasetManifest, requestedId: string | null): DatasetDescriptor {
+  if (requestedId) {
+    const requested = manifest.datasets.find(d => d.id === requestedId);
+    if (requested) return requested;
+    console.warn(`⚠️ Unknown dataset "${requestedId}", using "${manifest.defaultDataset}"`);
+  }
+  return manifest.datasets.find(d => d.id === manifest.defaultDataset) ?? manifest.datasets[0];
+}
+
+function getValidationOptions(dataset: DatasetDescriptor): ValidationOptions {
+  return dataset.yearRange ? { expectedYearRange: dataset.yearRange } : {};
+}
+
+export async function loadData(dataset: DatasetDescriptor): Promise<ClusteredData> {
+  try {
+    const response = await fetch(dataset.projects);
     
-    const clusters: ClusterData[] = [];
-    clusterMap.forEach((clusterProjects, clusterId) => {
-      // Calculate centroid from project positions
-      const centroidX = clusterProjects.reduce((sum, p) => sum + p.x, 0) / clusterProjects.length;
-      const centroidY = clusterProjects.reduce((sum, p) => sum + p.y, 0) / clusterProjects.length;
-      
-      // Get year range
-      const years = clusterProjects.map(p => p.year);
-      const yearRange: [number, number] = [Math.min(...years), Math.max(...years)];
-      
-      // Get top themes (simplified)
-      const allThemes = clusterProjects.flatMap(p => p.themes);
-      const topThemes = [...new Set(allThemes)].slice(0, 3);
-      
-      clusters.push({
-        id: clusterId,
-        centroid768d: [], // Not needed for visualization
-        centroidX,
-        centroidY,
-        projectCount: clusterProjects.length,
-        yearRange,
-        topTerms: topThemes
-      });
-    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
     
-    // Convert cluster_id to clusterId for compatibility
-    const normalizedProjects = projects.map(p => ({
-      ...p,
-      clusterId: p.cluster_id
-    }));
+    const format = dataset.format ?? inferDataFormat(dataset.projects);
+    const rawProjects = importProjectRecords(await response.text(), format, dataset.projectsImport);
+    const projectReport = validateProjects(rawProjects, getValidationOptions(dataset));
+    logValidationReport('Projects', projectReport);
+    if (!projectReport.valid) throw new DataValidationError(projectReport);
+
+    const projects = rawProjects as Project[];
+    console.log(`🚀 Loaded ${projects.length} projects from "${dataset.name}"`);
+
+    const clusterNames = dataset.clusterNames ? await loadClusterNames(dataset.clusterNames, projects) : {};
     
-    const result = {
-      projects: normalizedProjects,
-      clusters
-    };
+    const result = buildClusteredData(projects, clusterNames);
     
-    console.log(`📊 Generated ${clusters.length} clusters from project data`);
+    console.log(`📊 Generated ${result.clusters.length} clusters from project data`);
     return result;
     
   } catch (error) {
@@ -65,17 +85,50 @@ export async function loadData(): Promise<ClusteredData> {
   }
 }
 
-export async function loadBridgeData(): Promise<Bridge[]> {
+/**
+ * Loads the bridge file and checks its references against the already loaded projects.
+ */
+export async function loadBridgeData(dataset: DatasetDescriptor, data: ClusteredData): Promise<Bridge[]> {
   try {
-    const response = await fetch('/bridge_analysis.json');
+    const response = await fetch(dataset.bridges);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
-    const bridges = await response.json() as Bridge[];
+    const format = dataset.format ?? inferDataFormat(dataset.bridges);
+    const rawBridges = importBridgeRecords(await response.text(), format, dataset.bridgesImport);
+    const bridgeReport = validateBridges(rawBridges, data.projects, getValidationOptions(dataset));
+    logValidationReport('Bridges', bridgeReport);
+    if (!bridgeReport.valid) throw new DataValidationError(bridgeReport);
+
+    const bridges = rawBridges as Bridge[];
     console.log(`🚀 Loaded ${bridges.length} bridges`);
     return bridges;
   } catch (error) {
     console.error('❌ Failed to load bridge data:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Loads the human-curated cluster name map. A missing or broken file is not fatal:
+ * clusters then fall back to their computed top terms.
+ */
+export async function loadClusterNames(url: string, projects: Project[]): Promise<ClusterNameMap> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const rawNames: unknown = await response.json();
+    const nameReport = validateClusterNames(rawNames, projects);
+    logValidationReport('Cluster names', nameReport);
+    if (!nameReport.valid) throw new DataValidationError(nameReport);
+
+    const names = rawNames as ClusterNameMap;
+    console.log(`🏷️ Loaded ${Object.keys(names).length} cluster names`);
+    return names;
+  } catch (error) {
+    console.warn('⚠️ Failed to load cluster names, falling back to computed terms:', error);
+    return {};
+  }
+}
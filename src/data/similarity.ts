@@ -0,0 +1,56 @@
+import type { Project } from './interfaces';
+
+// Similarity measures between projects and clusters, all in 0.0-1.0
+
+/**
+ * Lowercase words of a list of themes. Themes are short phrases, so they are compared word by word;
+ * words of three letters or fewer ("and", "of", "the"...) are skipped.
+ */
+export function themeWords(themes: string[]): Set<string> {
+  const words = new Set<string>();
+  for (const theme of themes) {
+    for (const word of theme.toLowerCase().split(/[^a-z0-9]+/)) {
+      if (word.length > 3) words.add(word);
+    }
+  }
+  return words;
+}
+
+/**
+ * Jaccard overlap of two word sets: shared words over all words.
+ */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0.0;
+}
+
+/**
+ * Cosine similarity of two embeddings, clamped to 0.0 for opposite directions.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0.0;
+  return Math.max(0.0, dot / Math.sqrt(normA * normB));
+}
+
+/**
+ * Embedding similarity when both projects have one, theme overlap otherwise.
+ */
+export function projectSimilarity(a: Project, b: Project): number {
+  if (a.embedding && b.embedding && a.embedding.length > 0 && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  return jaccard(themeWords(a.themes), themeWords(b.themes));
+}
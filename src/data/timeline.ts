@@ -0,0 +1,35 @@
+import type { Project, Bridge } from './interfaces';
+
+export interface TimelineRange {
+  startYear: number;
+  endYear: number;
+}
+
+// Used only when a dataset has no years at all, so the simulation still has a valid range
+const FALLBACK_RANGE: TimelineRange = { startYear: 1981, endYear: 2025 };
+
+/**
+ * Computes the timeline from the earliest and latest project or bridge year.
+ * Either end can be overridden, e.g. from the dataset manifest.
+ */
+export function computeTimelineRange(
+  projects: Project[],
+  bridges: Bridge[],
+  overrides: Partial<TimelineRange> = {}
+): TimelineRange {
+  let minYear = Infinity;
+  let maxYear = -Infinity;
+  for (const item of [...projects, ...bridges]) {
+    if (item.year < minYear) minYear = item.year;
+    if (item.year > maxYear) maxYear = item.year;
+  }
+
+  const startYear = overrides.startYear ?? (Number.isFinite(minYear) ? minYear : FALLBACK_RANGE.startYear);
+  const endYear = overrides.endYear ?? (Number.isFinite(maxYear) ? maxYear : FALLBACK_RANGE.endYear);
+
+  if (endYear <= startYear) {
+    console.warn(`⚠️ Timeline end year ${endYear} is not after start year ${startYear}, extending by one year`);
+    return { startYear, endYear: startYear + 1 };
+  }
+  return { startYear, endYear };
+}
@@ -0,0 +1,405 @@
+// Schema and integrity checks for the input data files.
+// Pure functions with no DOM access, so they run both in the browser and from the command line.
+
+import type { Project, Bridge } from './interfaces';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationSource = 'projects' | 'bridges' | 'clusterNames';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  source: ValidationSource;
+  code: string; // Stable machine-readable identifier, e.g. "missing-field"
+  message: string;
+  index?: number; // Record index in the source file
+  field?: string;
+}
+
+export interface ValidationReport {
+  valid: boolean; // true when there are no errors (warnings are allowed)
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+  stats: {
+    projectCount: number;
+    bridgeCount: number;
+    clusterCount: number;
+    yearRange: [number, number] | null;
+  };
+}
+
+export interface ValidationOptions {
+  // Years outside this range are reported as warnings (the record is still usable).
+  // Null when the timeline is derived from the data itself, so nothing can fall outside it.
+  expectedYearRange?: [number, number] | null;
+  // Years outside this range are reported as errors (almost certainly a data bug)
+  plausibleYearRange?: [number, number];
+}
+
+export interface DatasetInput {
+  projects: unknown;
+  bridges?: unknown;
+  clusterNames?: unknown;
+}
+
+const DEFAULT_OPTIONS: Required<ValidationOptions> = {
+  expectedYearRange: null,
+  plausibleYearRange: [1900, 2100]
+};
+
+// Stop reporting per-record issues past this many, so a wholly broken file stays readable
+const MAX_ISSUES_PER_SOURCE = 200;
+
+/**
+ * Thrown by the loader when a data file fails validation. Carries the full report
+ * so the UI can render it.
+ */
+export class DataValidationError extends Error {
+  public readonly report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    super(`Data validation failed with ${report.errorCount} error(s) and ${report.warningCount} warning(s)`);
+    this.name = 'DataValidationError';
+    this.report = report;
+  }
+}
+
+class IssueCollector {
+  public issues: ValidationIssue[] = [];
+  private counts: Map<ValidationSource, number> = new Map();
+
+  public add(issue: ValidationIssue): void {
+    const count = this.counts.get(issue.source) ?? 0;
+    this.counts.set(issue.source, count + 1);
+    if (count === MAX_ISSUES_PER_SOURCE) {
+      this.issues.push({
+        severity: 'warning',
+        source: issue.source,
+        code: 'too-many-issues',
+        message: `More than ${MAX_ISSUES_PER_SOURCE} issues in ${issue.source}, further warnings are not listed`
+      });
+    }
+    if (count >= MAX_ISSUES_PER_SOURCE && issue.severity === 'warning') return;
+    this.issues.push(issue);
+  }
+
+  public error(source: ValidationSource, code: string, message: string, index?: number, field?: string): void {
+    this.add({ severity: 'error', source, code, message, index, field });
+  }
+
+  public warn(source: ValidationSource, code: string, message: string, index?: number, field?: string): void {
+    this.add({ severity: 'warning', source, code, message, index, field });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkYear(
+  collector: IssueCollector,
+  source: ValidationSource,
+  year: unknown,
+  index: number,
+  options: Required<ValidationOptions>
+): void {
+  if (!isFiniteNumber(year) || !Number.isInteger(year)) {
+    collector.error(source, 'invalid-type', `Record ${index}: "year" must be an integer, got ${JSON.stringify(year)}`, index, 'year');
+    return;
+  }
+  const [plausibleMin, plausibleMax] = options.plausibleYearRange;
+  if (year < plausibleMin || year > plausibleMax) {
+    collector.error(source, 'year-out-of-range', `Record ${index}: year ${year} is outside ${plausibleMin}–${plausibleMax}`, index, 'year');
+    return;
+  }
+  if (!options.expectedYearRange) return;
+  const [expectedMin, expectedMax] = options.expectedYearRange;
+  if (year < expectedMin || year > expectedMax) {
+    collector.warn(source, 'year-outside-timeline', `Record ${index}: year ${year} is outside the timeline ${expectedMin}–${expectedMax}`, index, 'year');
+  }
+}
+
+function validateProjectRecords(collector: IssueCollector, raw: unknown, options: Required<ValidationOptions>): Project[] {
+  if (!Array.isArray(raw)) {
+    collector.error('projects', 'not-an-array', 'Projects file must contain a JSON array');
+    return [];
+  }
+
+  const seenIds = new Map<string, number>();
+  const validProjects: Project[] = [];
+
+  raw.forEach((record: unknown, index: number) => {
+    if (!isRecord(record)) {
+      collector.error('projects', 'invalid-record', `Record ${index} is not an object`, index);
+      return;
+    }
+
+    let isValid = true;
+    const requireField = (field: string, check: (value: unknown) => boolean, expected: string): void => {
+      if (!(field in record)) {
+        collector.error('projects', 'missing-field', `Record ${index}: missing required field "${field}"`, index, field);
+        isValid = false;
+      } else if (!check(record[field])) {
+        collector.error('projects', 'invalid-type', `Record ${index}: "${field}" must be ${expected}`, index, field);
+        isValid = false;
+      }
+    };
+
+    requireField('id', value => typeof value === 'string' || isFiniteNumber(value), 'a string');
+    requireField('title', value => typeof value === 'string', 'a string');
+    requireField('themes', value => Array.isArray(value) && value.every(theme => typeof theme === 'string'), 'an array of strings');
+    requireField('x', isFiniteNumber, 'a finite number');
+    requireField('y', isFiniteNumber, 'a finite number');
+    requireField('cluster_id', value => isFiniteNumber(value) && Number.isInteger(value), 'an integer');
+
+    if (!('year' in record)) {
+      collector.error('projects', 'missing-field', `Record ${index}: missing required field "year"`, index, 'year');
+      isValid = false;
+    } else {
+      checkYear(collector, 'projects', record.year, index, options);
+      if (!isFiniteNumber(record.year)) isValid = false;
+    }
+
+    if ('embedding' in record && !(Array.isArray(record.embedding) && record.embedding.every(isFiniteNumber))) {
+      collector.warn('projects', 'invalid-type', `Record ${index}: "embedding" should be an array of numbers`, index, 'embedding');
+    }
+
+    // Project ids are strings, but bridges reference them by number
+    if (typeof record.id === 'number') {
+      collector.warn('projects', 'id-type-mismatch', `Record ${index}: "id" is a number (${record.id}), expected a string`, index, 'id');
+    } else if (typeof record.id === 'string' && !/^-?\d+$/.test(record.id)) {
+      collector.warn('projects', 'id-not-numeric', `Record ${index}: id "${record.id}" is not numeric, so no bridge can reference it`, index, 'id');
+    }
+
+    if (record.id !== undefined) {
+      const id = String(record.id);
+      const firstIndex = seenIds.get(id);
+      if (firstIndex !== undefined) {
+        collector.warn('projects', 'duplicate-id', `Record ${index}: duplicate id "${id}" (first seen at record ${firstIndex})`, index, 'id');
+      } else {
+        seenIds.set(id, index);
+      }
+    }
+
+    if (isValid) validProjects.push(record as unknown as Project);
+  });
+
+  if (raw.length === 0) {
+    collector.error('projects', 'empty', 'Projects file contains no records');
+  }
+
+  return validProjects;
+}
+
+function validateBridgeRecords(
+  collector: IssueCollector,
+  raw: unknown,
+  projects: Project[],
+  options: Required<ValidationOptions>
+): Bridge[] {
+  if (!Array.isArray(raw)) {
+    collector.error('bridges', 'not-an-array', 'Bridges file must contain a JSON array');
+    return [];
+  }
+
+  const projectsById = new Map<string, Project>();
+  for (const project of projects) projectsById.set(String(project.id), project);
+  const clusterIds = new Set(projects.map(p => p.cluster_id));
+  const validBridges: Bridge[] = [];
+
+  raw.forEach((record: unknown, index: number) => {
+    if (!isRecord(record)) {
+      collector.error('bridges', 'invalid-record', `Record ${index} is not an object`, index);
+      return;
+    }
+
+    let isValid = true;
+    for (const field of ['project_id', 'year', 'source_cluster', 'target_cluster', 'similarity_score']) {
+      if (!(field in record)) {
+        collector.error('bridges', 'missing-field', `Record ${index}: missing required field "${field}"`, index, field);
+        isValid = false;
+      }
+    }
+    if (!isValid) return;
+
+    // Bridges reference projects by number, projects carry string ids
+    const projectId = record.project_id;
+    if (typeof projectId === 'string' && /^-?\d+$/.test(projectId)) {
+      collector.warn('bridges', 'id-type-mismatch', `Record ${index}: "project_id" is the string "${projectId}", expected a number`, index, 'project_id');
+    } else if (!isFiniteNumber(projectId) || !Number.isInteger(projectId)) {
+      collector.error('bridges', 'invalid-type', `Record ${index}: "project_id" must be an integer, got ${JSON.stringify(projectId)}`, index, 'project_id');
+      isValid = false;
+    }
+
+    for (const field of ['source_cluster', 'target_cluster']) {
+      const value = record[field];
+      if (!isFiniteNumber(value) || !Number.isInteger(value)) {
+        collector.error('bridges', 'invalid-type', `Record ${index}: "${field}" must be an integer`, index, field);
+        isValid = false;
+      } else if (projects.length > 0 && !clusterIds.has(value)) {
+        collector.error('bridges', 'unknown-cluster', `Record ${index}: ${field} ${value} does not exist in the projects file`, index, field);
+        isValid = false;
+      }
+    }
+
+    const score = record.similarity_score;
+    if (!isFiniteNumber(score)) {
+      collector.error('bridges', 'invalid-type', `Record ${index}: "similarity_score" must be a finite number`, index, 'similarity_score');
+      isValid = false;
+    } else if (score < 0 || score > 1) {
+      collector.warn('bridges', 'score-out-of-range', `Record ${index}: similarity_score ${score} is outside 0–1`, index, 'similarity_score');
+    }
+
+    checkYear(collector, 'bridges', record.year, index, options);
+    if (!isFiniteNumber(record.year)) isValid = false;
+
+    if (!isValid) return;
+
+    if (record.source_cluster === record.target_cluster) {
+      collector.warn('bridges', 'same-cluster', `Record ${index}: bridge connects cluster ${record.source_cluster} to itself`, index);
+    }
+
+    if (projects.length > 0) {
+      const project = projectsById.get(String(projectId));
+      if (!project) {
+        collector.error('bridges', 'unknown-project', `Record ${index}: project_id ${projectId} does not match any project id`, index, 'project_id');
+        return;
+      }
+      if (project.cluster_id !== record.source_cluster) {
+        collector.warn('bridges', 'source-cluster-mismatch', `Record ${index}: source_cluster ${record.source_cluster} differs from project ${projectId}'s cluster ${project.cluster_id}`, index, 'source_cluster');
+      }
+      if (project.year !== record.year) {
+        collector.warn('bridges', 'year-mismatch', `Record ${index}: year ${record.year} differs from project ${projectId}'s year ${project.year}`, index, 'year');
+      }
+    }
+
+    validBridges.push(record as unknown as Bridge);
+  });
+
+  return validBridges;
+}
+
+function validateClusterNameRecords(collector: IssueCollector, raw: unknown, projects: Project[]): void {
+  if (!isRecord(raw)) {
+    collector.error('clusterNames', 'not-an-object', 'Cluster name file must contain a JSON object keyed by cluster id');
+    return;
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!/^-?\d+$/.test(key)) {
+      collector.warn('clusterNames', 'invalid-key', `Key "${key}" is not a cluster id`, undefined, key);
+    }
+    const name = isRecord(value) ? value.name : value;
+    if (typeof name !== 'string' || name.trim() === '') {
+      collector.error('clusterNames', 'invalid-type', `Cluster ${key}: name must be a non-empty string`, undefined, key);
+    }
+    if (isRecord(value)) {
+      for (const field of ['shortLabel', 'description']) {
+        if (field in value && typeof value[field] !== 'string') {
+          collector.warn('clusterNames', 'invalid-type', `Cluster ${key}: "${field}" should be a string`, undefined, key);
+        }
+      }
+    }
+  }
+
+  const clusterIds = [...new Set(projects.map(p => p.cluster_id))].sort((a, b) => a - b);
+  for (const clusterId of clusterIds) {
+    if (!(clusterId.toString() in raw)) {
+      collector.warn('clusterNames', 'missing-name', `Cluster ${clusterId} has no curated name, computed terms will be used`, undefined, clusterId.toString());
+    }
+  }
+}
+
+function buildReport(collector: IssueCollector, projects: Project[], bridges: Bridge[]): ValidationReport {
+  const errorCount = collector.issues.filter(issue => issue.severity === 'error').length;
+  const years = [...projects.map(p => p.year), ...bridges.map(b => b.year)];
+  let yearRange: [number, number] | null = null;
+  if (years.length > 0) {
+    yearRange = [years.reduce((a, b) => Math.min(a, b)), years.reduce((a, b) => Math.max(a, b))];
+  }
+
+  return {
+    valid: errorCount === 0,
+    issues: collector.issues,
+    errorCount,
+    warningCount: collector.issues.length - errorCount,
+    stats: {
+      projectCount: projects.length,
+      bridgeCount: bridges.length,
+      clusterCount: new Set(projects.map(p => p.cluster_id)).size,
+      yearRange
+    }
+  };
+}
+
+/**
+ * Validates a parsed projects file on its own.
+ */
+export function validateProjects(raw: unknown, options: ValidationOptions = {}): ValidationReport {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const collector = new IssueCollector();
+  const projects = validateProjectRecords(collector, raw, resolved);
+  return buildReport(collector, projects, []);
+}
+
+/**
+ * Validates a parsed bridges file, checking its references against already loaded projects.
+ */
+export function validateBridges(raw: unknown, projects: Project[], options: ValidationOptions = {}): ValidationReport {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const collector = new IssueCollector();
+  const bridges = validateBridgeRecords(collector, raw, projects, resolved);
+  return buildReport(collector, projects, bridges);
+}
+
+/**
+ * Validates a parsed cluster name map against the clusters present in the projects.
+ */
+export function validateClusterNames(raw: unknown, projects: Project[]): ValidationReport {
+  const collector = new IssueCollector();
+  validateClusterNameRecords(collector, raw, projects);
+  return buildReport(collector, projects, []);
+}
+
+/**
+ * Validates a complete dataset in one pass. Used by the command-line check.
+ */
+export function validateDataset(input: DatasetInput, options: ValidationOptions = {}): ValidationReport {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const collector = new IssueCollector();
+  const projects = validateProjectRecords(collector, input.projects, resolved);
+  const bridges = input.bridges !== undefined ? validateBridgeRecords(collector, input.bridges, projects, resolved) : [];
+  if (input.clusterNames !== undefined) {
+    validateClusterNameRecords(collector, input.clusterNames, projects);
+  }
+  return buildReport(collector, projects, bridges);
+}
+
+/**
+ * Prints a report to the console, grouped by severity.
+ */
+export function logValidationReport(label: string, report: ValidationReport): void {
+  if (report.issues.length === 0) {
+    console.log(`✅ ${label}: no validation issues`);
+    return;
+  }
+  const summary = `${label}: ${report.errorCount} error(s), ${report.warningCount} warning(s)`;
+  if (report.valid) {
+    console.warn(`⚠️ ${summary}`);
+  } else {
+    console.error(`❌ ${summary}`);
+  }
+  for (const issue of report.issues) {
+    const line = `  [${issue.source}] ${issue.code}: ${issue.message}`;
+    if (issue.severity === 'error') {
+      console.error(line);
+    } else {
+      console.warn(line);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { Bridge, ClusteredData } from './data/interfaces';
+import type { SimulationConfig } from './config/SimulationConfig';
+import { DEFAULT_CONFIG, mergeConfig } from './config/SimulationConfig';
+import { Random } from './core/Random';
+import { DataIndex } from './data/DataIndex';
+import { ParticleSystem } from './systems/ParticleSystem';
+import { CpuAgentBackend } from './systems/CpuAgentBackend';
+import { Simulation } from './simulation';
+import type { SimulationOptions } from './simulation';
+
+// The garden without a browser: the same Simulation driving CpuAgentBackend instead of the GPU.
+// Steps the timeline like App does while simulating, so tests and batch scripts can run a whole cycle in Node.
+
+export interface HeadlessGardenOptions {
+  width?: number; // Virtual canvas size, default 1280 x 800
+  height?: number;
+  seed?: number;
+  config?: SimulationConfig; // Defaults to a copy of DEFAULT_CONFIG
+  speed?: number; // Playback speed as in the Ledger; higher covers a year in fewer steps
+  trailCellSize?: number; // See CpuAgentBackendOptions
+  simulation?: SimulationOptions; // Per-dataset settings, as from the manifest
+}
+
+export class HeadlessGarden {
+  public readonly STEP_SECONDS = 1 / 60; // Same fixed step as SimulationClock
+
+  public readonly config: SimulationConfig;
+  public readonly random: Random;
+  public readonly index: DataIndex;
+  public readonly particleSystem: ParticleSystem;
+  public readonly agents: CpuAgentBackend;
+  public readonly simulation: Simulation;
+
+  private speed: number;
+  private stepCount: number = 0;
+  private arrivalCount: number = 0;
+
+  constructor(data: ClusteredData, bridges: Bridge[], options: HeadlessGardenOptions = {}) {
+    const width = options.width ?? 1280;
+    const height = options.height ?? 800;
+    this.config = options.config ?? mergeConfig(DEFAULT_CONFIG, {});
+    this.speed = options.speed ?? 1;
+
+    // Built in the same order as App.initializeSystems, so a seed draws the same random sequence
+    this.random = new Random(options.seed ?? 1);
+    this.particleSystem = new ParticleSystem(width, height, this.random);
+    this.particleSystem.initialize(data);
+
+    this.agents = new CpuAgentBackend(width, height, this.config, { trailCellSize: options.trailCellSize });
+    this.index = new DataIndex(data, bridges);
+    this.simulation = new Simulation(
+      this.particleSystem,
+      this.agents,
+      this.index,
+      this.random,
+      this.config,
+      width,
+      height,
+      options.simulation
+    );
+  }
+
+  public get isFinished(): boolean {
+    return this.simulation.currentYear >= this.simulation.END_YEAR;
+  }
+
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  // Frontier agents that reached a target since the start, including those that went on to another leg
+  public getArrivalCount(): number {
+    return this.arrivalCount;
+  }
+
+  /**
+   * Advances the year, the narrative and the agents by one fixed step.
+   */
+  public step(): void {
+    const stepSeconds = this.STEP_SECONDS;
+    const chapterSpeed = this.simulation.getCurrentChapter()?.speed ?? 1;
+    const yearSeconds = this.config.timeline.yearDurationMs / 1000 / (this.speed * chapterSpeed);
+    this.simulation.currentYear = Math.min(this.simulation.currentYear + stepSeconds / yearSeconds, this.simulation.END_YEAR);
+
+    this.simulation.update(stepSeconds);
+    this.agents.update(this.simulation.currentYear, stepSeconds);
+
+    this.agents.updateFrontierMirrors(
+      this.particleSystem.getClusters(),
+      mirror => this.simulation.continueFrontierJourney(mirror)
+    );
+    this.arrivalCount += this.agents.frontierArrivals.length;
+    this.stepCount++;
+  }
+
+  /**
+   * Runs until the timeline has moved on by `years` or reached its end. Returns the steps taken.
+   */
+  public runYears(years: number): number {
+    const targetYear = Math.min(this.simulation.currentYear + years, this.simulation.END_YEAR);
+    let steps = 0;
+    while (this.simulation.currentYear < targetYear) {
+      this.step();
+      steps++;
+    }
+    return steps;
+  }
+
+  /**
+   * Runs the rest of the timeline. Returns the steps taken.
+   */
+  public runToEnd(): number {
+    return this.runYears(this.simulation.END_YEAR - this.simulation.currentYear);
+  }
+
+  /**
+   * Starts the timeline over, as the cycle reset does.
+   */
+  public reset(): void {
+    this.simulation.reset();
+    this.agents.reset();
+    this.stepCount = 0;
+    this.arrivalCount = 0;
+  }
+}
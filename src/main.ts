@@ -3,7 +3,7 @@
 import { SemanticGarden } from './app';
 
 // Initialize the semantic garden visualization
-new SemanticGarden();
+const garden = new SemanticGarden();
 
 // Toggle performance panel with 'd' key
 document.addEventListener('keydown', (event) => {
@@ -13,4 +13,19 @@ document.addEventListener('keydown', (event) => {
             panel.classList.toggle('hidden');
         }
     }
+
+    // Toggle the parameter tuning panel with 't' key
+    if (event.key === 't') {
+        garden.toggleTuningPanel();
+    }
+
+    // Toggle the "why this journey" score breakdown on Ledger cards with 'w' key
+    if (event.key === 'w') {
+        garden.toggleScoreBreakdown();
+    }
+
+    // Toggle the cross-cluster flow matrix with 'f' key
+    if (event.key === 'f') {
+        garden.toggleFlowMatrix();
+    }
 });
@@ -0,0 +1,121 @@
+// An authored storyline for exhibitions: chapters over year ranges that take over parts of the
+// automatic narrative. Anything a chapter leaves out keeps its automatic behaviour.
+
+export interface StoryboardChapter {
+  title: string; // Shown in the Ledger header and on the title card
+  startYear: number; // First year of the chapter, inclusive
+  endYear: number; // Last year of the chapter, inclusive
+  caption?: string; // Second line of the title card
+  protagonists?: number[]; // Cluster ids used instead of the protagonist strategy, in palette order
+  highlightedProjects?: string[]; // Project ids drawn with a ring while the chapter runs
+  speed?: number; // Multiplies the playback speed while the chapter runs
+  titleCardSeconds?: number; // How long the title card stays up, 0 for no card
+}
+
+export interface StoryboardFile {
+  title?: string;
+  chapters: StoryboardChapter[];
+}
+
+export const DEFAULT_TITLE_CARD_SECONDS = 6;
+
+function isNumberList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isInteger(item));
+}
+
+/**
+ * Checks the structure of a storyboard file. Returns the list of problems, empty when it is valid.
+ * Cluster and project ids are checked against the data later, by the Storyboard.
+ */
+export function validateStoryboard(raw: unknown): string[] {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as StoryboardFile).chapters)) {
+    return ['the storyboard must be an object with a chapters list'];
+  }
+
+  const issues: string[] = [];
+  const chapters = (raw as StoryboardFile).chapters as unknown[];
+  chapters.forEach((entry, i) => {
+    const chapter = entry as Partial<StoryboardChapter>;
+    const label = `chapter ${i + 1}${typeof chapter?.title === 'string' ? ` ("${chapter.title}")` : ''}`;
+    if (typeof entry !== 'object' || entry === null) {
+      issues.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof chapter.title !== 'string' || chapter.title.trim() === '') {
+      issues.push(`${label} needs a title`);
+    }
+    if (typeof chapter.startYear !== 'number' || typeof chapter.endYear !== 'number') {
+      issues.push(`${label} needs a numeric startYear and endYear`);
+    } else if (chapter.startYear > chapter.endYear) {
+      issues.push(`${label} starts after it ends (${chapter.startYear}–${chapter.endYear})`);
+    }
+    if (chapter.caption !== undefined && typeof chapter.caption !== 'string') {
+      issues.push(`${label} caption must be text`);
+    }
+    if (chapter.protagonists !== undefined && !isNumberList(chapter.protagonists)) {
+      issues.push(`${label} protagonists must be a list of cluster ids`);
+    }
+    if (chapter.highlightedProjects !== undefined &&
+        (!Array.isArray(chapter.highlightedProjects) || !chapter.highlightedProjects.every(id => typeof id === 'string' || typeof id === 'number'))) {
+      issues.push(`${label} highlightedProjects must be a list of project ids`);
+    }
+    if (chapter.speed !== undefined && (typeof chapter.speed !== 'number' || !(chapter.speed > 0))) {
+      issues.push(`${label} speed must be a positive number`);
+    }
+    if (chapter.titleCardSeconds !== undefined && (typeof chapter.titleCardSeconds !== 'number' || chapter.titleCardSeconds < 0)) {
+      issues.push(`${label} titleCardSeconds must be zero or more`);
+    }
+  });
+
+  // Chapters are looked up by year, so two chapters claiming the same year would be ambiguous
+  const sorted = (chapters as StoryboardChapter[])
+    .filter(chapter => typeof chapter?.startYear === 'number' && typeof chapter?.endYear === 'number')
+    .sort((a, b) => a.startYear - b.startYear);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startYear <= sorted[i - 1].endYear) {
+      issues.push(`chapters "${sorted[i - 1].title}" and "${sorted[i].title}" overlap`);
+    }
+  }
+  return issues;
+}
+
+export class Storyboard {
+  public readonly title: string | null;
+  public readonly chapters: StoryboardChapter[];
+
+  constructor(file: StoryboardFile) {
+    this.title = file.title ?? null;
+    this.chapters = [...file.chapters].sort((a, b) => a.startYear - b.startYear);
+  }
+
+  /**
+   * The chapter covering a (fractional) year, or null between and outside chapters.
+   */
+  public getChapter(year: number): StoryboardChapter | null {
+    const wholeYear = Math.floor(year);
+    return this.chapters.find(chapter => wholeYear >= chapter.startYear && wholeYear <= chapter.endYear) ?? null;
+  }
+
+  /**
+   * Drops cluster and project ids the loaded data does not know, with a warning for each chapter.
+   */
+  public resolveIds(hasCluster: (id: number) => boolean, hasProject: (id: string) => boolean): void {
+    for (const chapter of this.chapters) {
+      if (chapter.protagonists) {
+        const unknown = chapter.protagonists.filter(id => !hasCluster(id));
+        if (unknown.length > 0) {
+          console.warn(`⚠️ Storyboard chapter "${chapter.title}" names unknown clusters: ${unknown.join(', ')}`);
+          chapter.protagonists = chapter.protagonists.filter(id => hasCluster(id));
+        }
+      }
+      if (chapter.highlightedProjects) {
+        chapter.highlightedProjects = chapter.highlightedProjects.map(id => id.toString());
+        const unknown = chapter.highlightedProjects.filter(id => !hasProject(id));
+        if (unknown.length > 0) {
+          console.warn(`⚠️ Storyboard chapter "${chapter.title}" names unknown projects: ${unknown.join(', ')}`);
+          chapter.highlightedProjects = chapter.highlightedProjects.filter(id => hasProject(id));
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import type { StoryboardFile } from './Storyboard';
+import { Storyboard, validateStoryboard } from './Storyboard';
+
+/**
+ * Loads and validates the storyboard file a dataset points to.
+ */
+export async function loadStoryboard(url: string): Promise<Storyboard> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const raw: unknown = await response.json();
+
+    const issues = validateStoryboard(raw);
+    if (issues.length > 0) {
+      throw new Error(`${url} is not a valid storyboard:\n- ${issues.join('\n- ')}`);
+    }
+
+    const storyboard = new Storyboard(raw as StoryboardFile);
+    console.log(`📖 Loaded storyboard${storyboard.title ? ` "${storyboard.title}"` : ''} with ${storyboard.chapters.length} chapter(s)`);
+    return storyboard;
+  } catch (error) {
+    console.error('❌ Failed to load storyboard:', error);
+    throw error;
+  }
+}
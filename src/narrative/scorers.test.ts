@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Bridge, ClusterInfo } from '../data/interfaces';
+import type { ScoringConfig } from '../config/SimulationConfig';
+import { DEFAULT_CONFIG } from '../config/SimulationConfig';
+import { DataIndex } from '../data/DataIndex';
+import { createTestData } from '../test/fixtures';
+import { createBridgeScorers } from './scorers';
+import type { BridgeScoringContext } from './scorers';
+
+// The recency term (formerly Simulation.calculateRecencyScore) and the other parts of a bridge score
+
+const { data, bridges } = createTestData();
+const index = new DataIndex(data, bridges);
+const scorers = createBridgeScorers();
+
+function context(year: number, lastPathwayYear?: number, lastTargetYear?: number): BridgeScoringContext {
+  const clusters = new Map<number, ClusterInfo>(data.clusters.map(cluster => [cluster.id, {
+    id: cluster.id, centerX: cluster.centroidX * 10, centerY: cluster.centroidY * 10,
+    particles: [], breathPhase: 0, density: 0, isActive: true
+  }]));
+  return {
+    year,
+    index,
+    clusters,
+    canvasDiagonal: Math.hypot(1000, 800),
+    weights: DEFAULT_CONFIG.scoring,
+    lastPathwayYear: () => lastPathwayYear,
+    lastTargetYear: () => lastTargetYear
+  };
+}
+
+const BRIDGE: Bridge = { project_id: 1, year: 2010, source_cluster: 0, target_cluster: 3, similarity_score: 0.8 };
+
+function term(id: string, scoringContext: BridgeScoringContext, scorer: keyof typeof scorers = 'default'): number {
+  return scorers[scorer].score(BRIDGE, scoringContext).components.find(component => component.id === id)!.value;
+}
+
+describe('recency score', () => {
+  it('is 1 for a pathway that was never highlighted', () => {
+    expect(term('recency', context(2010))).toBe(1.0);
+  });
+
+  it('is 0 within a year of the last highlight', () => {
+    expect(term('recency', context(2010, 2010))).toBe(0.0);
+    expect(term('recency', context(2010.9, 2010))).toBe(0.0);
+  });
+
+  it('grows logarithmically and reaches 1 after 24 years', () => {
+    const scores = [1, 2, 5, 10, 24].map(years => term('recency', context(2000 + years, 2000)));
+    for (let i = 1; i < scores.length; i++) expect(scores[i]).toBeGreaterThan(scores[i - 1]);
+    expect(scores[0]).toBeCloseTo(Math.log(2) / Math.log(25));
+    expect(scores[4]).toBeCloseTo(1.0);
+    expect(term('recency', context(2040, 2000))).toBe(1.0);
+  });
+
+  it('scores reverse playback the same way', () => {
+    expect(term('recency', context(2000, 2010))).toBeCloseTo(term('recency', context(2020, 2010)));
+  });
+});
+
+describe('bridge scorers', () => {
+  it('weights every term by its config value', () => {
+    const score = scorers.default.score(BRIDGE, context(2010, 2005));
+    const expected = score.components.reduce((sum, component) => sum + component.value * DEFAULT_CONFIG.scoring[component.id as Exclude<keyof ScoringConfig, 'scorer'>], 0);
+    expect(score.total).toBeCloseTo(expected);
+    expect(score.scorer).toBe('default');
+  });
+
+  it('takes intensity from the bridge similarity', () => {
+    expect(term('intensity', context(2010))).toBe(0.8);
+  });
+
+  it('adds novelty only in the novelty scorer', () => {
+    expect(scorers.default.score(BRIDGE, context(2010)).components.some(component => component.id === 'novelty')).toBe(false);
+    expect(term('novelty', context(2010, undefined, 2009.5), 'novelty')).toBe(0.0);
+    expect(term('novelty', context(2010), 'novelty')).toBe(1.0);
+  });
+
+  it('scores theme overlap between 0 and 1', () => {
+    const overlap = term('themeOverlap', context(2010), 'theme-overlap');
+    expect(overlap).toBeGreaterThan(0); // The fixture clusters share the words "shared" and "theme"
+    expect(overlap).toBeLessThanOrEqual(1);
+  });
+});
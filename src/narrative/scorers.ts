@@ -0,0 +1,122 @@
+import type { Bridge, ClusterInfo, FrontierScore } from '../data/interfaces';
+import type { DataIndex } from '../data/DataIndex';
+import type { BridgeScorerId, ScoringConfig } from '../config/SimulationConfig';
+import { jaccard, themeWords } from '../data/similarity';
+
+// Scorers rank the bridges that can start the year's Frontier journey.
+// Simulation picks the highest total and keeps the breakdown on the agent, so the Ledger can explain it.
+
+export interface BridgeScoringContext {
+  year: number;
+  index: DataIndex;
+  clusters: Map<number, ClusterInfo>; // Screen-space cluster centroids
+  canvasDiagonal: number; // Longest possible distance between two centroids
+  weights: ScoringConfig;
+  lastPathwayYear(sourceCluster: number, targetCluster: number): number | undefined; // Last Frontier journey between the pair
+  lastTargetYear(clusterId: number): number | undefined; // Last Frontier journey into the cluster
+}
+
+export interface BridgeScorer {
+  readonly id: BridgeScorerId;
+  score(bridge: Bridge, context: BridgeScoringContext): FrontierScore;
+}
+
+// One weighted part of a score. Its weight is the config.scoring value with the same key.
+interface ScoreTerm {
+  id: 'recency' | 'intensity' | 'bridgeBuilding' | 'novelty' | 'themeOverlap';
+  label: string;
+  evaluate(bridge: Bridge, context: BridgeScoringContext): number;
+}
+
+/**
+ * 1.0 for something never seen, 0.0 within a year of the last time,
+ * growing on a logarithmic scale so a 25-year dormancy is like new again.
+ */
+function dormancyScore(year: number, lastYear: number | undefined): number {
+  if (lastYear === undefined) return 1.0;
+
+  const yearsSince = Math.abs(year - lastYear); // Absolute, so reverse playback scores the same way
+  if (yearsSince < 1.0) return 0.0;
+
+  const score = Math.log(1.0 + yearsSince) / Math.log(25.0);
+  return Math.max(0.0, Math.min(score, 1.0));
+}
+
+// How long since this pathway was last highlighted
+const RECENCY: ScoreTerm = {
+  id: 'recency',
+  label: 'recency',
+  evaluate: (bridge, context) =>
+    dormancyScore(context.year, context.lastPathwayYear(bridge.source_cluster, bridge.target_cluster))
+};
+
+// Comes directly from the bridge similarity data
+const INTENSITY: ScoreTerm = {
+  id: 'intensity',
+  label: 'similarity',
+  evaluate: bridge => bridge.similarity_score
+};
+
+// Favors connections between distant clusters
+const BRIDGE_BUILDING: ScoreTerm = {
+  id: 'bridgeBuilding',
+  label: 'distance',
+  evaluate: (bridge, context) => {
+    const source = context.clusters.get(bridge.source_cluster);
+    const target = context.clusters.get(bridge.target_cluster);
+    if (!source || !target) return 0.0;
+    return Math.hypot(source.centerX - target.centerX, source.centerY - target.centerY) / context.canvasDiagonal;
+  }
+};
+
+// Favors target clusters no Frontier agent has travelled to for a while
+const NOVELTY: ScoreTerm = {
+  id: 'novelty',
+  label: 'novelty',
+  evaluate: (bridge, context) => dormancyScore(context.year, context.lastTargetYear(bridge.target_cluster))
+};
+
+// Favors clusters sharing their top themes (Jaccard overlap of the theme words)
+const THEME_OVERLAP: ScoreTerm = {
+  id: 'themeOverlap',
+  label: 'shared themes',
+  evaluate: (bridge, context) => jaccard(
+    themeWords(context.index.getCluster(bridge.source_cluster)?.topTerms ?? []),
+    themeWords(context.index.getCluster(bridge.target_cluster)?.topTerms ?? [])
+  )
+};
+
+/**
+ * Scores a bridge as the weighted sum of its terms.
+ */
+export class WeightedBridgeScorer implements BridgeScorer {
+  public readonly id: BridgeScorerId;
+  private terms: ScoreTerm[];
+
+  constructor(id: BridgeScorerId, terms: ScoreTerm[]) {
+    this.id = id;
+    this.terms = terms;
+  }
+
+  public score(bridge: Bridge, context: BridgeScoringContext): FrontierScore {
+    const components = this.terms.map(term => ({
+      id: term.id,
+      label: term.label,
+      value: term.evaluate(bridge, context),
+      weight: context.weights[term.id]
+    }));
+    const total = components.reduce((sum, component) => sum + component.value * component.weight, 0);
+    return { scorer: this.id, total, components };
+  }
+}
+
+/**
+ * Builds every scorer, so the model can be switched live from the config.
+ */
+export function createBridgeScorers(): Record<BridgeScorerId, BridgeScorer> {
+  return {
+    'default': new WeightedBridgeScorer('default', [RECENCY, INTENSITY, BRIDGE_BUILDING]),
+    'novelty': new WeightedBridgeScorer('novelty', [RECENCY, INTENSITY, BRIDGE_BUILDING, NOVELTY]),
+    'theme-overlap': new WeightedBridgeScorer('theme-overlap', [RECENCY, INTENSITY, BRIDGE_BUILDING, THEME_OVERLAP])
+  };
+}
@@ -0,0 +1,225 @@
+import type { DataIndex } from '../data/DataIndex';
+import type { ProtagonistEra } from '../data/interfaces';
+import type { Random } from '../core/Random';
+import type { ProtagonistStrategyId } from '../config/SimulationConfig';
+
+// Strategies for choosing the protagonist clusters of each period.
+// Simulation asks the strategy named in config.timeline.protagonistStrategy whenever the period is up.
+
+export interface ProtagonistSelectionContext {
+  index: DataIndex;
+  random: Random; // The simulation's seeded source, so a seed replays the same protagonists
+  year: number; // Current (fractional) year
+  windowYears: number; // Length of the active window ending at `year`
+  count: number; // How many clusters to pick
+}
+
+export interface ProtagonistStrategy {
+  readonly id: ProtagonistStrategyId;
+  /**
+   * Returns up to `count` distinct cluster ids, in palette order.
+   */
+  select(context: ProtagonistSelectionContext): number[];
+  /**
+   * Forgets any state kept between selections, called when a new cycle starts.
+   */
+  reset(): void;
+}
+
+interface WeightedCluster {
+  id: number;
+  weight: number;
+}
+
+/**
+ * Draws up to `count` distinct clusters, each with probability proportional to its weight.
+ * Clusters with no weight are only drawn once every weighted cluster is taken.
+ */
+function sampleWeighted(random: Random, candidates: WeightedCluster[], count: number): number[] {
+  const pool = candidates.filter(candidate => candidate.weight > 0);
+  const selected: number[] = [];
+
+  while (selected.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let threshold = random.next() * total;
+    let chosen = pool.length - 1;
+    for (let i = 0; i < pool.length; i++) {
+      threshold -= pool[i].weight;
+      if (threshold < 0) {
+        chosen = i;
+        break;
+      }
+    }
+    selected.push(pool.splice(chosen, 1)[0].id);
+  }
+
+  if (selected.length < count) {
+    const unweighted = candidates.filter(candidate => candidate.weight <= 0).map(candidate => candidate.id);
+    selected.push(...sampleUniform(random, unweighted, count - selected.length));
+  }
+  return selected;
+}
+
+function sampleUniform(random: Random, clusterIds: number[], count: number): number[] {
+  const available = [...clusterIds];
+  const selected: number[] = [];
+  while (selected.length < count && available.length > 0) {
+    selected.push(available.splice(random.int(available.length), 1)[0]);
+  }
+  return selected;
+}
+
+function activeClusters(context: ProtagonistSelectionContext): number[] {
+  return context.index.getActiveClusterIds(context.year - context.windowYears, context.year);
+}
+
+/**
+ * Any cluster with a project in the active window, with equal chances. The original behaviour.
+ */
+export class RandomStrategy implements ProtagonistStrategy {
+  public readonly id = 'random';
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    return sampleUniform(context.random, activeClusters(context), context.count);
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * Clusters with more projects in the active window are more likely to be picked.
+ */
+export class WeightedStrategy implements ProtagonistStrategy {
+  public readonly id = 'weighted';
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    const { index, year, windowYears } = context;
+    const candidates = activeClusters(context).map(id => ({
+      id,
+      weight: index.countActiveProjects(id, year - windowYears, year)
+    }));
+    return sampleWeighted(context.random, candidates, context.count);
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * Favours clusters that grew the most compared with the window before the active one.
+ * Clusters that shrank are only picked when nothing else is left.
+ */
+export class GrowthStrategy implements ProtagonistStrategy {
+  public readonly id = 'growth';
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    const { index, year, windowYears } = context;
+    const windowStart = year - windowYears;
+    // The previous window ends on the last whole year before the active window starts
+    const previousEnd = Math.ceil(windowStart) - 1;
+
+    const candidates = activeClusters(context).map(id => {
+      const current = index.countActiveProjects(id, windowStart, year);
+      const previous = index.countActiveProjects(id, previousEnd - windowYears, previousEnd);
+      return { id, weight: current > previous ? current / (previous + 1) : 0 };
+    });
+    return sampleWeighted(context.random, candidates, context.count);
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * Favours clusters that take part in many bridges (as source or target) in the active window.
+ */
+export class BridgeActivityStrategy implements ProtagonistStrategy {
+  public readonly id = 'bridges';
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    const bridgeCounts = new Map<number, number>();
+    for (const bridge of context.index.getBridgesInWindow(context.year - context.windowYears, context.year)) {
+      bridgeCounts.set(bridge.source_cluster, (bridgeCounts.get(bridge.source_cluster) ?? 0) + 1);
+      bridgeCounts.set(bridge.target_cluster, (bridgeCounts.get(bridge.target_cluster) ?? 0) + 1);
+    }
+
+    const candidates = activeClusters(context).map(id => ({ id, weight: bridgeCounts.get(id) ?? 0 }));
+    return sampleWeighted(context.random, candidates, context.count);
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * Gives the turn to the active clusters that have waited longest since they were last picked,
+ * so over a cycle every cluster with projects gets its moment. Ties go to the lower cluster id.
+ */
+export class RoundRobinStrategy implements ProtagonistStrategy {
+  public readonly id = 'round-robin';
+
+  private turn: number = 0;
+  private lastTurn: Map<number, number> = new Map(); // Cluster id -> turn it was last picked in
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    const waiting = activeClusters(context).sort((a, b) =>
+      (this.lastTurn.get(a) ?? -1) - (this.lastTurn.get(b) ?? -1) || a - b
+    );
+
+    const selected = waiting.slice(0, context.count);
+    for (const clusterId of selected) {
+      this.lastTurn.set(clusterId, this.turn);
+    }
+    this.turn++;
+    return selected;
+  }
+
+  public reset(): void {
+    this.turn = 0;
+    this.lastTurn.clear();
+  }
+}
+
+/**
+ * Uses the curated clusters of the era containing the current year. Eras with fewer clusters
+ * than requested, and years outside every era, are filled up at random from the active clusters.
+ */
+export class CuratedStrategy implements ProtagonistStrategy {
+  public readonly id = 'curated';
+
+  private eras: ProtagonistEra[];
+  private hasWarned: boolean = false;
+
+  constructor(eras: ProtagonistEra[]) {
+    this.eras = eras;
+  }
+
+  public select(context: ProtagonistSelectionContext): number[] {
+    if (this.eras.length === 0 && !this.hasWarned) {
+      console.warn('⚠️ The dataset defines no protagonist eras, curated protagonists are picked at random');
+      this.hasWarned = true;
+    }
+
+    const year = Math.floor(context.year);
+    const era = this.eras.find(candidate => year >= candidate.startYear && year <= candidate.endYear);
+    const curated = era
+      ? [...new Set(era.clusters)].filter(id => context.index.getCluster(id) !== undefined).slice(0, context.count)
+      : [];
+
+    const remaining = activeClusters(context).filter(id => !curated.includes(id));
+    return [...curated, ...sampleUniform(context.random, remaining, context.count - curated.length)];
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * Builds one instance of every strategy, so the strategy can be switched live from the config.
+ */
+export function createProtagonistStrategies(eras: ProtagonistEra[] = []): Record<ProtagonistStrategyId, ProtagonistStrategy> {
+  return {
+    'random': new RandomStrategy(),
+    'weighted': new WeightedStrategy(),
+    'growth': new GrowthStrategy(),
+    'bridges': new BridgeActivityStrategy(),
+    'round-robin': new RoundRobinStrategy(),
+    'curated': new CuratedStrategy(eras)
+  };
+}
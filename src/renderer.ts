@@ -52,6 +52,10 @@ export class Renderer {
     this.overlayCanvas.style.height = this.height + 'px';
   }
 
+  public dispose(): void {
+    this.overlayCanvas.remove();
+  }
+
   public resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
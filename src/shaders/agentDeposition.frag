@@ -4,11 +4,15 @@ varying vec2 v_texCoord;
 uniform sampler2D u_decayedTrailTexture;
 uniform sampler2D u_agentStateTexture;
 uniform sampler2D u_agentPropertiesTexture;
+uniform sampler2D u_agentTargetTexture; // z = bridge strength
 
 uniform float u_agentTextureSize;
 uniform int u_activeAgentCount;
 uniform float u_trailStrength;
 uniform vec2 u_canvasSize;
+uniform float u_similarityInfluence;
+uniform sampler2D u_speciesTexture;
+uniform float u_speciesCount;
 
 // HSV to RGB conversion for cluster coloring
 vec3 hsv2rgb(vec3 c){
@@ -17,6 +21,11 @@ vec3 hsv2rgb(vec3 c){
   return c.z*mix(K.xxx,clamp(p-K.xxx,0.,1.),c.y);
 }
 
+// Row of the species table (src/config/species.ts), texel 0-2
+vec4 speciesParams(float species,float texel){
+  return texture2D(u_speciesTexture,vec2((texel+.5)/3.,(species+.5)/u_speciesCount));
+}
+
 void main(){
   vec4 existingColor=texture2D(u_decayedTrailTexture,v_texCoord);
   float brightnessDeposit=0.;
@@ -41,18 +50,17 @@ void main(){
       
       // If the agent is active, proceed.
       vec4 agentProperties=texture2D(u_agentPropertiesTexture,texCoord);
-      float isFrontier=agentProperties.z;
+      float trailWeight=speciesParams(agentProperties.z,1.).y;// Each species deposits its own share
+      
+      // Strong bridges leave deeper trails, weak ones fainter (unchanged at the middle strength)
+      float bridgeStrength=texture2D(u_agentTargetTexture,texCoord).z;
+      float strengthFactor=max(0.,1.+u_similarityInfluence*(bridgeStrength-.5));
       
       float dist=length(worldPos-agentPos);
       // Soft trail system: moderate radius for organic feel
-      float influence=smoothstep(15.,1.,dist)*u_trailStrength;
+      float influence=smoothstep(15.,1.,dist)*u_trailStrength*strengthFactor;
       
-      if(isFrontier>.5){
-        brightnessDeposit+=influence; // Full strength for Frontier agents
-      }else{
-        // Bridge Ecosystem agents - slightly reduced for variety
-        brightnessDeposit+=influence*0.7; // Reduced but still visible
-      }
+      brightnessDeposit+=influence*trailWeight;
     }
   }
   
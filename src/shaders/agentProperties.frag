@@ -11,10 +11,10 @@ uniform float u_deltaTime;
 void main() {
   vec4 properties = texture2D(u_agentPropertiesTexture, v_texCoord);
   
-  // properties: x=age, y=maxAge, z=isFrontier, w=brightness
+  // properties: x=age, y=maxAge, z=species, w=brightness
   float age = properties.x;
   float maxAge = properties.y;
-  float isFrontier = properties.z;
+  float species = properties.z;
   float brightness = properties.w;
   
   // Skip inactive agents
@@ -32,5 +32,5 @@ void main() {
     return;
   }
   
-  gl_FragColor = vec4(newAge, maxAge, isFrontier, brightness);
+  gl_FragColor = vec4(newAge, maxAge, species, brightness);
 }
@@ -1,6 +1,6 @@
 precision mediump float;
 varying float v_brightness;
-varying float v_isFrontier;
+varying vec3 v_color;
 varying float v_age;
 varying float v_maxAge;
 
@@ -23,16 +23,6 @@ void main() {
   // This works because fadeIn is 1.0 for most of the life, and fadeOut is 1.0 until the end.
   float alpha = v_brightness * fadeIn * fadeOut;
   
-  // Determine the agent's color based on its status
-  vec3 color;
-  if (v_isFrontier > 0.5) {
-    // Frontier agents - bright and prominent
-    color = vec3(0.8, 0.3098, 0.2275);
-  } else {
-    // Ecosystem agents (including wanderers) - visible grey
-    color = vec3(0.0, 0.0, 0.0); // Light grey for better contrast
-  }
-
-  // Set the final pixel color with the calculated alpha
-  gl_FragColor = vec4(color, alpha);
+  // The color comes from the agent's species
+  gl_FragColor = vec4(v_color, alpha);
 }
\ No newline at end of file
@@ -3,11 +3,18 @@ uniform sampler2D u_agentStateTexture;
 uniform sampler2D u_agentPropertiesTexture;
 uniform float u_agentTextureSize;
 uniform vec2 u_canvasSize;
+uniform sampler2D u_speciesTexture;
+uniform float u_speciesCount;
 varying float v_brightness;
-varying float v_isFrontier;
+varying vec3 v_color;
 varying float v_age;
 varying float v_maxAge;
 
+// Row of the species table (src/config/species.ts), texel 0-2
+vec4 speciesParams(float species,float texel){
+  return texture2D(u_speciesTexture,vec2((texel+.5)/3.,(species+.5)/u_speciesCount));
+}
+
 void main(){
   // Convert agent index to texture coordinates
   float x=mod(a_agentIndex,u_agentTextureSize);
@@ -22,7 +29,7 @@ void main(){
   vec4 properties=texture2D(u_agentPropertiesTexture,texCoord);
   v_age=properties.x;// R channel stores age
   v_maxAge=properties.y;// G channel stores maxAge
-  float isFrontier=properties.z;// Z channel stores frontier status
+  float species=properties.z;// Z channel stores the species index
   float brightness=properties.w;// W channel stores brightness
   
   // Skip inactive agents
@@ -30,7 +37,7 @@ void main(){
     gl_Position=vec4(-10.,-10.,0.,1.);// Off-screen
     gl_PointSize=0.;
     v_brightness=0.;
-    v_isFrontier=0.;
+    v_color=vec3(0.);
     return;
   }
   
@@ -50,12 +57,12 @@ void main(){
   vec2 clipPos=normalizedPos*2.-1.;
   gl_Position=vec4(clipPos,0.,1.);
   
-  // Frontier agents are larger and more prominent
-  gl_PointSize=isFrontier>.5?8.:3.;
+  // Each species has its own size (Frontier agents are the largest) and color
+  gl_PointSize=speciesParams(species,1.).z;
   
   // Pass properties to fragment shader with lifecycle fading applied
   v_age=properties.x;
   v_maxAge=properties.y;
   v_brightness=brightness*lifeCycleFade;
-  v_isFrontier=isFrontier;
+  v_color=speciesParams(species,2.).rgb;
 }
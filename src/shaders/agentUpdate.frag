@@ -11,12 +11,20 @@ uniform float u_agentSpeed;
 uniform float u_sensorDistance;
 uniform float u_sensorAngle;
 uniform float u_turnStrength;
+uniform float u_similarityInfluence; // How much the bridge strength shapes speed and wander
+uniform sampler2D u_speciesTexture;
+uniform float u_speciesCount;
 
 // Random function for agent behavior
 float random(vec2 st){
   return fract(sin(dot(st.xy,vec2(12.9898,78.233)))*43758.5453123);
 }
 
+// Row of the species table (src/config/species.ts), texel 0-2
+vec4 speciesParams(float species, float texel){
+  return texture2D(u_speciesTexture, vec2((texel + 0.5) / 3.0, (species + 0.5) / u_speciesCount));
+}
+
 float sampleTrail(vec2 pos){
   vec2 uv=pos/u_canvasSize;
   if(uv.x<0.||uv.x>1.||uv.y<0.||uv.y>1.)return 0.;
@@ -32,9 +40,11 @@ void main() {
   
   vec4 properties = texture2D(u_agentPropertiesTexture, v_texCoord);
   float maxAge = properties.y;
+  float species = properties.z;
 
   vec4 targetData = texture2D(u_agentTargetTexture, v_texCoord);
   vec2 targetPosition = targetData.xy;
+  float bridgeStrength = targetData.z; // 0.0-1.0, how similar the agent's bridge is
 
   // Immediately exit for dead agents
   if (maxAge < 1.0) {
@@ -42,15 +52,23 @@ void main() {
     return;
   }
 
+  // Each species scales the shared steering values: (sensorDistance, sensorAngle, turnStrength, speed), (targetPull, ...)
+  vec4 steering = speciesParams(species, 0.0);
+  float sensorDistance = u_sensorDistance * steering.x;
+  float sensorAngle = u_sensorAngle * steering.y;
+  float turnStrength = u_turnStrength * steering.z;
+  float agentSpeed = u_agentSpeed * steering.w;
+  float targetPull = speciesParams(species, 1.0).x;
+
   // --- 2. Calculate the Two Steering Forces ---
 
   // Force A: Trail-Following (Physarum Logic)
   float currentAngle = atan(velocity.y, velocity.x);
-  float leftAngle = currentAngle - u_sensorAngle;
-  float rightAngle = currentAngle + u_sensorAngle;
-  vec2 leftSensor = position + vec2(cos(leftAngle), sin(leftAngle)) * u_sensorDistance;
-  vec2 forwardSensor = position + vec2(cos(currentAngle), sin(currentAngle)) * u_sensorDistance;
-  vec2 rightSensor = position + vec2(cos(rightAngle), sin(rightAngle)) * u_sensorDistance;
+  float leftAngle = currentAngle - sensorAngle;
+  float rightAngle = currentAngle + sensorAngle;
+  vec2 leftSensor = position + vec2(cos(leftAngle), sin(leftAngle)) * sensorDistance;
+  vec2 forwardSensor = position + vec2(cos(currentAngle), sin(currentAngle)) * sensorDistance;
+  vec2 rightSensor = position + vec2(cos(rightAngle), sin(rightAngle)) * sensorDistance;
   float leftStrength = sampleTrail(leftSensor);
   float forwardStrength = sampleTrail(forwardSensor);
   float rightStrength = sampleTrail(rightSensor);
@@ -59,12 +77,12 @@ void main() {
   if (forwardStrength > leftStrength && forwardStrength > rightStrength) {
     // No change, continue forward
   } else if (leftStrength > rightStrength) {
-    trailAngle -= u_turnStrength;
+    trailAngle -= turnStrength;
   } else if (rightStrength > leftStrength) {
-    trailAngle += u_turnStrength;
+    trailAngle += turnStrength;
   } else {
     // If sensors are equal, add some randomness to prevent getting stuck
-    trailAngle += (random(v_texCoord + position) - 0.5) * u_turnStrength * 2.0;
+    trailAngle += (random(v_texCoord + position) - 0.5) * turnStrength * 2.0;
   }
   vec2 trailVector = vec2(cos(trailAngle), sin(trailAngle));
 
@@ -74,13 +92,22 @@ void main() {
   vec2 targetDirection = distanceToTarget > 0.1 ? normalize(toTarget) : vec2(0.0);
   
   // Blend trail-following with target-seeking based on distance to target
-  float targetWeight = min(1.0, distanceToTarget / 100.0); // Stronger when far from target
+  float targetWeight = min(1.0, distanceToTarget / 100.0 * targetPull); // Stronger when far from target
   float trailWeight = 1.0 - targetWeight;
   
   vec2 finalDirection = normalize(trailVector * trailWeight + targetDirection * targetWeight);
+
+  // --- 3. Similarity: strong bridges travel faster and straighter, weak ones wander ---
+  float wander = u_similarityInfluence * (1.0 - bridgeStrength) * 0.6;
+  float wanderAngle = (random(v_texCoord * 7.0 + position) - 0.5) * wander;
+  finalDirection = vec2(
+    finalDirection.x * cos(wanderAngle) - finalDirection.y * sin(wanderAngle),
+    finalDirection.x * sin(wanderAngle) + finalDirection.y * cos(wanderAngle)
+  );
+  float speedFactor = max(0.1, 1.0 + u_similarityInfluence * (bridgeStrength - 0.5) * 0.6);
   
   // --- 4. Update and Write New State ---
-  vec2 newVelocity = finalDirection * u_agentSpeed;
+  vec2 newVelocity = finalDirection * agentSpeed * speedFactor;
   vec2 newPosition = position + newVelocity * u_deltaTime;
   
   // Boundary conditions (wrap around screen)
@@ -0,0 +1,487 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Bridge, FrontierScore } from './data/interfaces';
+import type { Simulation } from './simulation';
+import { createFrontierMirror } from './systems/AgentBackend';
+import { TEST_END_YEAR, TEST_START_YEAR, createTestData, createTestSimulation, stepAt } from './test/fixtures';
+
+// Private members are reached with bracket access, which TypeScript allows for exactly this purpose
+
+const TEST_SCORE: FrontierScore = { scorer: 'default', total: 1, components: [] };
+
+function bridge(source: number, target: number, similarity: number = 0.8, year: number = 2010): Bridge {
+  // Project ids follow the fixture layout: one project per cluster per year
+  const projectId = (year - TEST_START_YEAR) * 6 + source + 1;
+  return { project_id: projectId, year, source_cluster: source, target_cluster: target, similarity_score: similarity };
+}
+
+// Spies on the private spawn builder through a typed view of it
+function spyOnSpawnData(simulation: Simulation) {
+  return vi.spyOn(simulation as unknown as { createAgentSpawnData: Simulation['createAgentSpawnData'] }, 'createAgentSpawnData');
+}
+
+function setProtagonists(simulation: Simulation, clusters: number[]): void {
+  simulation['protagonistClusters'] = clusters;
+}
+
+beforeEach(() => {
+  // The simulation narrates every spawn and swap
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('calculateTimeBasedScaling', () => {
+  // With the default fractions the 20-year test timeline ramps up from 2004.5 to 2011.4
+  const span = TEST_END_YEAR - TEST_START_YEAR;
+  const rampStart = TEST_START_YEAR + span * 10 / 44;
+  const rampDuration = span * 15 / 44;
+
+  it('holds at 10% before the ramp-up starts', () => {
+    const { simulation } = createTestSimulation();
+    for (const year of [TEST_START_YEAR, TEST_START_YEAR + 2, rampStart - 0.01]) {
+      simulation.currentYear = year;
+      expect(simulation['calculateTimeBasedScaling']()).toBe(0.1);
+    }
+  });
+
+  it('rises linearly to full intensity during the ramp-up', () => {
+    const { simulation } = createTestSimulation();
+    simulation.currentYear = rampStart + rampDuration / 2;
+    expect(simulation['calculateTimeBasedScaling']()).toBeCloseTo(0.55);
+    simulation.currentYear = rampStart + rampDuration / 4;
+    expect(simulation['calculateTimeBasedScaling']()).toBeCloseTo(0.325);
+  });
+
+  it('stays at full intensity after the ramp-up', () => {
+    const { simulation } = createTestSimulation();
+    for (const year of [rampStart + rampDuration + 0.01, 2015, TEST_END_YEAR]) {
+      simulation.currentYear = year;
+      expect(simulation['calculateTimeBasedScaling']()).toBe(1.0);
+    }
+  });
+
+  it('never decreases over the timeline', () => {
+    const { simulation } = createTestSimulation();
+    let previous = 0;
+    for (let year = TEST_START_YEAR; year <= TEST_END_YEAR; year += 0.25) {
+      simulation.currentYear = year;
+      const scaling = simulation['calculateTimeBasedScaling']();
+      expect(scaling).toBeGreaterThanOrEqual(previous);
+      previous = scaling;
+    }
+  });
+
+  it('follows the configured ramp-up fractions', () => {
+    const { simulation } = createTestSimulation({ timeline: { rampUpStartFraction: 0, rampUpDurationFraction: 0.5 } });
+    simulation.currentYear = TEST_START_YEAR + 5;
+    expect(simulation['calculateTimeBasedScaling']()).toBeCloseTo(0.55);
+    simulation.currentYear = TEST_START_YEAR + 10;
+    expect(simulation['calculateTimeBasedScaling']()).toBe(1.0);
+  });
+});
+
+describe('selectFrontierBridge', () => {
+  it('returns null without bridges', () => {
+    const { simulation } = createTestSimulation();
+    setProtagonists(simulation, [0, 1, 2]);
+    expect(simulation['selectFrontierBridge']([])).toBeNull();
+  });
+
+  it('returns null when no bridge starts in a protagonist cluster', () => {
+    const { simulation } = createTestSimulation();
+    setProtagonists(simulation, [0]);
+    expect(simulation['selectFrontierBridge']([bridge(1, 2), bridge(3, 4)])).toBeNull();
+  });
+
+  it('picks the best-scoring bridge out of a protagonist cluster', () => {
+    // Similarity only, so the expected winner is obvious
+    const { simulation } = createTestSimulation({ scoring: { recency: 0, intensity: 1, bridgeBuilding: 0 } });
+    simulation.currentYear = 2010;
+    setProtagonists(simulation, [0, 1]);
+
+    const best = bridge(1, 3, 0.9);
+    const candidates = [bridge(0, 2, 0.75), best, bridge(0, 4, 0.85), bridge(5, 2, 0.99)];
+    const selected = simulation['selectFrontierBridge'](candidates);
+
+    expect(selected?.bridge).toBe(best);
+    expect(selected?.score.total).toBeCloseTo(0.9);
+  });
+
+  it('keeps the score breakdown of the chosen bridge', () => {
+    const { simulation, config } = createTestSimulation();
+    simulation.currentYear = 2010;
+    setProtagonists(simulation, [0]);
+
+    const selected = simulation['selectFrontierBridge']([bridge(0, 3)])!;
+    const ids = selected.score.components.map(component => component.id);
+    expect(ids).toEqual(['recency', 'intensity', 'bridgeBuilding']);
+
+    const total = selected.score.components.reduce((sum, component) => sum + component.value * component.weight, 0);
+    expect(selected.score.total).toBeCloseTo(total);
+    expect(selected.score.components.find(component => component.id === 'intensity')?.weight).toBe(config.scoring.intensity);
+  });
+
+  it('moves on to another pathway once one has been highlighted', () => {
+    const { simulation } = createTestSimulation({ scoring: { recency: 1, intensity: 0, bridgeBuilding: 0 } });
+    simulation.currentYear = 2010;
+    setProtagonists(simulation, [0]);
+
+    const first = simulation['selectFrontierBridge']([bridge(0, 2), bridge(0, 3)])!;
+    const second = simulation['selectFrontierBridge']([bridge(0, 2), bridge(0, 3)])!;
+    expect(second.bridge.target_cluster).not.toBe(first.bridge.target_cluster);
+  });
+});
+
+describe('Frontier gatekeeper in createAgentSpawnData', () => {
+  it('spawns a Frontier agent for a new directive while there is room', () => {
+    const { simulation } = createTestSimulation();
+    simulation.currentYear = 2010;
+
+    const [agent] = simulation['createAgentSpawnData']({ bridge: bridge(0, 2), score: TEST_SCORE }, []);
+    expect(agent.isFrontier).toBe(true);
+    expect(agent.species).toBe('frontier');
+    expect(agent.directive_noun).toBe('Cluster Name 2');
+    expect(agent.score).toBe(TEST_SCORE);
+  });
+
+  it('demotes the bridge to an Ecosystem agent once maxFrontierAgents are travelling', () => {
+    const { simulation, agents, config } = createTestSimulation();
+    simulation.currentYear = 2010;
+
+    const template = simulation['createAgentSpawnData']({ bridge: bridge(0, 2), score: TEST_SCORE }, [])[0];
+    for (let i = 0; i < config.spawning.maxFrontierAgents; i++) {
+      agents.frontierMirrors.push({ ...createFrontierMirror(i, template), directive_noun: `noun ${i}` });
+    }
+
+    const [agent] = simulation['createAgentSpawnData']({ bridge: bridge(1, 3), score: TEST_SCORE }, []);
+    expect(agent.isFrontier).toBe(false);
+    expect(agent.species).toBe('ecosystem');
+    expect(agent.directive_noun).toBeUndefined();
+  });
+
+  it('never lets more than maxFrontierAgents travel at once', () => {
+    const { simulation, agents } = createTestSimulation({ spawning: { maxFrontierAgents: 3 } });
+    simulation.currentYear = 2010;
+
+    for (const target of [1, 2, 3, 4, 5]) {
+      agents.spawnAgents(simulation['createAgentSpawnData']({ bridge: bridge(0, target), score: TEST_SCORE }, []));
+    }
+    expect(agents.spawned).toHaveLength(5);
+    expect(agents.spawned.filter(agent => agent.isFrontier)).toHaveLength(3);
+  });
+
+  it('allows only one Frontier agent per directive noun', () => {
+    const { simulation, agents } = createTestSimulation();
+    simulation.currentYear = 2010;
+
+    // Different sources, same target cluster and therefore the same noun
+    for (const source of [0, 1, 3]) {
+      agents.spawnAgents(simulation['createAgentSpawnData']({ bridge: bridge(source, 2), score: TEST_SCORE }, []));
+    }
+    const frontier = agents.spawned.filter(agent => agent.isFrontier);
+    expect(frontier).toHaveLength(1);
+    expect(frontier[0].sourceClusterId).toBe(0);
+  });
+
+  it('frees the noun again when its Frontier agent is gone', () => {
+    const { simulation, agents } = createTestSimulation();
+    simulation.currentYear = 2010;
+
+    agents.spawnAgents(simulation['createAgentSpawnData']({ bridge: bridge(0, 2), score: TEST_SCORE }, []));
+    agents.frontierMirrors[0].isActive = false;
+
+    const [agent] = simulation['createAgentSpawnData']({ bridge: bridge(1, 2), score: TEST_SCORE }, []);
+    expect(agent.isFrontier).toBe(true);
+  });
+});
+
+describe('maxTotalAgents cap', () => {
+  it('spawns nothing while the population is at the cap', () => {
+    const { simulation, agents, config } = createTestSimulation();
+    agents.activeAgentCount = config.spawning.maxTotalAgents;
+
+    for (let year = 2010; year <= 2015; year++) stepAt(simulation, year + 0.5);
+    expect(agents.spawned).toHaveLength(0);
+  });
+
+  it('uses no more bridges than there are free slots', () => {
+    const { simulation, agents, config } = createTestSimulation();
+    const createSpawns = spyOnSpawnData(simulation);
+
+    const freeSlots = 2;
+    agents.activeAgentCount = config.spawning.maxTotalAgents - freeSlots;
+    stepAt(simulation, 2012.5); // Dozens of bridges qualify in this window
+
+    expect(createSpawns).toHaveBeenCalledTimes(1);
+    const [frontier, ecosystemBridges] = createSpawns.mock.calls[0];
+    expect((frontier ? 1 : 0) + ecosystemBridges.length).toBeLessThanOrEqual(freeSlots);
+  });
+
+  it('keeps the best bridges when it has to cut', () => {
+    const { simulation, agents, config, index } = createTestSimulation();
+    const createSpawns = spyOnSpawnData(simulation);
+
+    agents.activeAgentCount = config.spawning.maxTotalAgents - 5;
+    stepAt(simulation, 2012.5);
+
+    const [frontier, ecosystemBridges] = createSpawns.mock.calls[0];
+    const used = [...ecosystemBridges, ...(frontier ? [frontier.bridge] : [])];
+    const lowestUsed = Math.min(...used.map(b => b.similarity_score));
+
+    // Every bridge of the window that scored higher than the weakest one used made the cut
+    const window = index.getBridgesInWindow(2012.5 - config.timeline.activeWindowYears, 2012.5, config.spawning.minSpawnSimilarity);
+    const stronger = window.filter(b => b.similarity_score > lowestUsed);
+    expect(stronger.length).toBeLessThan(5);
+  });
+
+  it('fills free slots through population maintenance only up to the target fraction', () => {
+    const { simulation, agents, config } = createTestSimulation({ spawning: { populationCheckIntervalMs: 0 } });
+    simulation.currentYear = 2015;
+    simulation['lastYearProcessed'] = 2015; // Maintenance only, no yearly spawns
+
+    const target = Math.floor(config.spawning.maxTotalAgents * config.spawning.populationTargetFraction);
+    for (let i = 0; i < 200; i++) simulation.update(1 / 60);
+
+    expect(agents.spawned.length).toBe(target);
+    expect(agents.spawned.length).toBeLessThanOrEqual(config.spawning.maxTotalAgents);
+  });
+});
+
+describe('protagonist swaps', () => {
+  function swapYears(simulation: Simulation, years: number[]): number[] {
+    const swaps: number[] = [];
+    for (const year of years) {
+      const before = simulation['lastTrioSwapYear'];
+      stepAt(simulation, year + 0.5);
+      if (simulation['lastTrioSwapYear'] !== before) swaps.push(year);
+    }
+    return swaps;
+  }
+
+  const forwardYears = Array.from({ length: TEST_END_YEAR - TEST_START_YEAR + 1 }, (_, i) => TEST_START_YEAR + i);
+
+  it('picks a new trio every five years', () => {
+    const { simulation } = createTestSimulation();
+    expect(swapYears(simulation, forwardYears)).toEqual([2000, 2005, 2010, 2015, 2020]);
+  });
+
+  it('keeps the trio between swaps', () => {
+    const { simulation } = createTestSimulation();
+    let trio: number[] = [];
+    for (const year of forwardYears) {
+      stepAt(simulation, year + 0.5);
+      const current = simulation.getProtagonistClusters().map(cluster => cluster.id);
+      expect(current).toHaveLength(3);
+      expect(new Set(current).size).toBe(3);
+      if ((year - TEST_START_YEAR) % 5 !== 0) expect(current).toEqual(trio);
+      trio = current;
+    }
+  });
+
+  it('counts the period in reverse playback too', () => {
+    const { simulation } = createTestSimulation();
+    stepAt(simulation, TEST_END_YEAR + 0.5);
+    const reverseYears = Array.from({ length: 10 }, (_, i) => TEST_END_YEAR - 1 - i);
+    expect(swapYears(simulation, reverseYears)).toEqual([2015, 2010]);
+  });
+
+  it('follows the configured period', () => {
+    const { simulation } = createTestSimulation({ timeline: { protagonistPeriodYears: 3 } });
+    expect(swapYears(simulation, forwardYears.slice(0, 10))).toEqual([2000, 2003, 2006, 2009]);
+  });
+
+  it('replays the same trios for the same seed', () => {
+    const trios = (seed: number) => {
+      const { simulation } = createTestSimulation({}, {}, seed);
+      return forwardYears.map(year => {
+        stepAt(simulation, year + 0.5);
+        return simulation.getProtagonistClusters().map(cluster => cluster.id);
+      });
+    };
+    expect(trios(7)).toEqual(trios(7));
+  });
+
+  it('replays the same cycle when the window is resized along the way', () => {
+    const run = (resizeAt: number | null) => {
+      const { simulation, agents, particleSystem } = createTestSimulation({}, {}, 7);
+      const { data } = createTestData();
+      const trios = forwardYears.map(year => {
+        if (year === resizeAt) particleSystem.resize(1200, 700, data);
+        stepAt(simulation, year + 0.5);
+        return simulation.getProtagonistClusters().map(cluster => cluster.id);
+      });
+      return { trios, lifespans: agents.spawned.map(agent => agent.maxAge) };
+    };
+    expect(run(2008)).toEqual(run(null));
+  });
+});
+
+describe('cross-cluster flows', () => {
+  function spawnedTotal(simulation: Simulation, startYear?: number, endYear?: number): number {
+    return simulation.getCrossClusterFlows().getActivity('spawned', startYear, endYear).reduce((sum, flow) => sum + flow.count, 0);
+  }
+
+  it('counts every spawned agent on its pathway and year', () => {
+    const { simulation, agents } = createTestSimulation();
+    for (let year = 2008; year <= 2014; year++) stepAt(simulation, year + 0.5);
+
+    const flows = simulation.getCrossClusterFlows();
+    expect(agents.spawned.length).toBeGreaterThan(0);
+    expect(spawnedTotal(simulation)).toBe(agents.spawned.length);
+    for (const agent of agents.spawned) {
+      expect(flows.getCount('spawned', agent.sourceClusterId!, agent.targetClusterId!, agent.spawnYear, agent.spawnYear)).toBeGreaterThan(0);
+    }
+
+    // Frontier agents depart as their own series, comparable with the arrivals
+    const departed = flows.getActivity('departed').reduce((sum, flow) => sum + flow.count, 0);
+    expect(departed).toBe(agents.spawned.filter(agent => agent.isFrontier).length);
+  });
+
+  it('counts a continued journey as another Frontier departure', () => {
+    const { simulation } = createTestSimulation({ spawning: { maxJourneyLegs: 3 } });
+    simulation.currentYear = 2010.5;
+
+    const template = simulation['createAgentSpawnData']({ bridge: bridge(0, 2), score: TEST_SCORE }, [])[0];
+    const leg = simulation.continueFrontierJourney(createFrontierMirror(0, template));
+    expect(leg).not.toBeNull();
+    expect(simulation.getCrossClusterFlows().getCount('departed', 2, leg!.targetClusterId)).toBe(1);
+  });
+
+  it('counts only the agents the backend accepted', () => {
+    const { simulation, agents } = createTestSimulation();
+    const spawnAgents = agents.spawnAgents.bind(agents);
+    let offered = 0;
+    agents.acceptLimit = 1;
+    agents.spawnAgents = agentData => {
+      offered += agentData.length;
+      return spawnAgents(agentData);
+    };
+    for (let year = 2008; year <= 2014; year++) stepAt(simulation, year + 0.5);
+
+    expect(offered).toBeGreaterThan(agents.spawned.length);
+    expect(spawnedTotal(simulation)).toBe(agents.spawned.length);
+  });
+
+  it('counts arrivals per journey leg', () => {
+    const { simulation } = createTestSimulation();
+    simulation.currentYear = 2010.5;
+
+    const template = simulation['createAgentSpawnData']({ bridge: bridge(0, 2), score: TEST_SCORE }, [])[0];
+    const mirror = createFrontierMirror(0, template);
+    simulation.continueFrontierJourney(mirror);
+
+    mirror.itinerary.push({ clusterId: 4, name: 'Cluster Name 4' });
+    mirror.targetClusterId = 4;
+    simulation.continueFrontierJourney(mirror);
+
+    const flows = simulation.getCrossClusterFlows();
+    expect(flows.getCount('arrived', 0, 2, 2010, 2010)).toBe(1);
+    expect(flows.getCount('arrived', 2, 4, 2010, 2010)).toBe(1);
+    expect(flows.getCount('arrived', 0, 4)).toBe(0);
+  });
+
+  it('leaves the seeded population of a seek out', () => {
+    const { simulation, agents } = createTestSimulation();
+    simulation.seek(2015);
+    expect(agents.spawned.length).toBeGreaterThan(0);
+    expect(spawnedTotal(simulation)).toBe(0);
+  });
+
+  it('counts the years played again after a seek back for their latest pass only', () => {
+    const { simulation, agents } = createTestSimulation();
+    for (let year = 2008; year <= 2012; year++) stepAt(simulation, year + 0.5);
+
+    simulation.seek(2009.5);
+    expect(spawnedTotal(simulation, 2009)).toBe(0);
+    expect(spawnedTotal(simulation, 2008, 2008)).toBeGreaterThan(0);
+
+    for (let year = 2010; year <= 2011; year++) stepAt(simulation, year + 0.5);
+    for (let year = 2010; year <= 2011; year++) {
+      const replayed = agents.spawned.filter(agent => Math.floor(agent.spawnYear) === year).length;
+      expect(replayed).toBeGreaterThan(0);
+      expect(spawnedTotal(simulation, year, year)).toBe(replayed);
+    }
+  });
+
+  it('counts a year entered again in reverse playback for its latest pass only', () => {
+    const { simulation, agents } = createTestSimulation();
+    stepAt(simulation, 2010.5);
+    stepAt(simulation, 2011.5);
+    const firstPass = agents.spawned.length;
+
+    stepAt(simulation, 2010.5);
+    const replayed = agents.spawned.slice(firstPass).filter(agent => Math.floor(agent.spawnYear) === 2010).length;
+    expect(replayed).toBeGreaterThan(0);
+    expect(spawnedTotal(simulation, 2010, 2010)).toBe(replayed);
+    expect(spawnedTotal(simulation, 2011, 2011)).toBeGreaterThan(0);
+  });
+
+  it('starts over with a new cycle', () => {
+    const { simulation } = createTestSimulation();
+    for (let year = 2010; year <= 2012; year++) stepAt(simulation, year + 0.5);
+    expect(spawnedTotal(simulation)).toBeGreaterThan(0);
+
+    simulation.reset();
+    expect(simulation.getCrossClusterFlows().getYearRange()).toBeNull();
+  });
+});
+
+describe('cycle recorder', () => {
+  it('samples every year as it ends, with the trio and flows of that year', () => {
+    const { simulation } = createTestSimulation();
+    const trios = new Map<number, number[]>();
+    for (let year = 2000; year <= 2010; year++) {
+      stepAt(simulation, year + 0.5);
+      trios.set(year, simulation.getProtagonistClusters().map(cluster => cluster.id));
+    }
+
+    const series = simulation.getCycleRecorder().getSeries();
+    expect(series.map(sample => sample.year)).toEqual([2000, 2001, 2002, 2003, 2004, 2005, 2006, 2007, 2008, 2009]);
+    const flows = simulation.getCrossClusterFlows();
+    for (const sample of series) {
+      expect(sample.protagonists.map(protagonist => protagonist.id)).toEqual(trios.get(sample.year));
+      expect(sample.spawns).toBe(flows.getActivity('spawned', sample.year, sample.year).reduce((sum, flow) => sum + flow.count, 0));
+      expect(sample.clusters.reduce((sum, cluster) => sum + cluster.spawned, 0)).toBe(sample.spawns);
+      expect(sample.bridgesInWindow).toBeGreaterThan(0);
+    }
+  });
+
+  it('counts active agents by species from the pool', () => {
+    const { simulation, agents } = createTestSimulation();
+    stepAt(simulation, 2012.5);
+    simulation.recordRunningYear();
+
+    const [sample] = simulation.getCycleRecorder().getSeries();
+    expect(sample.year).toBe(2012);
+    expect(sample.activeAgents).toBe(agents.spawned.length);
+    expect(Object.values(sample.agentsBySpecies).reduce((sum, count) => sum + count, 0)).toBe(agents.spawned.length);
+    expect(sample.poolPressure).toBeCloseTo(agents.spawned.length / agents.getMaxAgents());
+  });
+
+  it('replaces the sample of a year played again with the counts of the latest pass', () => {
+    const { simulation, agents } = createTestSimulation();
+    for (let year = 2008; year <= 2012; year++) stepAt(simulation, year + 0.5);
+    simulation.seek(2009.5);
+    const seeded = agents.spawned.length;
+    for (let year = 2010; year <= 2011; year++) stepAt(simulation, year + 0.5);
+
+    const sample = simulation.getCycleRecorder().getSeries().find(row => row.year === 2010)!;
+    const replayed = agents.spawned.slice(seeded).filter(agent => Math.floor(agent.spawnYear) === 2010);
+    expect(sample.spawns).toBe(replayed.length);
+    expect(sample.frontierDepartures).toBe(replayed.filter(agent => agent.isFrontier).length);
+    expect(sample.clusters.reduce((sum, cluster) => sum + cluster.spawned, 0)).toBe(replayed.length);
+  });
+
+  it('keeps the finished cycle, including its last year, after a reset', () => {
+    const { simulation } = createTestSimulation();
+    for (let year = 2000; year <= 2003; year++) stepAt(simulation, year + 0.5);
+
+    simulation.reset();
+    const recorder = simulation.getCycleRecorder();
+    expect(recorder.size).toBe(0);
+    expect(recorder.getLastCycle()!.map(sample => sample.year)).toEqual([2000, 2001, 2002, 2003]);
+  });
+});
@@ -1,58 +1,68 @@
-import type { ClusteredData, AgentSpawnData, Bridge } from './data/interfaces';
+import type { AgentSpawnData, Bridge, ClusterInfo, FrontierAgentMirror, FrontierJourneyLeg, FrontierScore, ProtagonistEra } from './data/interfaces';
 import { ParticleSystem } from './systems/ParticleSystem';
-import { GPUSystem } from './systems/GPUSystem';
+import type { AgentBackend } from './systems/AgentBackend';
+import { computeTimelineRange } from './data/timeline';
+import { DataIndex } from './data/DataIndex';
+import { CrossClusterFlows } from './data/CrossClusterFlows';
+import { CycleRecorder } from './data/CycleRecorder';
+import type { ClusterYearActivity } from './data/CycleRecorder';
+import { Random } from './core/Random';
+import type { BridgeScorerId, ProtagonistStrategyId, SimulationConfig } from './config/SimulationConfig';
+import { createProtagonistStrategies } from './narrative/strategies';
+import type { ProtagonistStrategy } from './narrative/strategies';
+import type { Storyboard, StoryboardChapter } from './narrative/Storyboard';
+import { createBridgeScorers } from './narrative/scorers';
+import { projectSimilarity } from './data/similarity';
+import type { BridgeScorer, BridgeScoringContext } from './narrative/scorers';
+
+// Per-dataset settings from the dataset manifest
+export interface SimulationOptions {
+  startYear?: number; // Overrides the earliest year found in the data
+  endYear?: number; // Overrides the latest year found in the data
+  palette?: string[]; // Protagonist cluster colors
+  protagonistEras?: ProtagonistEra[]; // Curated protagonists for the 'curated' strategy
+  storyboard?: Storyboard | null; // Authored chapters that override the automatic narrative
+}
+
+// One color per protagonist slot; dataset palettes are extended with these when they are shorter
+const DEFAULT_PROTAGONIST_COLORS = [
+  '#db4135', '#ecb92e', '#101d43', '#2e8b57',
+  '#7b3fa0', '#e07b39', '#3a7bd5', '#8c6d46'
+];
 
 export class Simulation {
   private particleSystem: ParticleSystem;
-  private gpuSystem: GPUSystem;
-  private data: ClusteredData;
-  private bridgeData: Bridge[];
+  private agents: AgentBackend; // GPUSystem in the browser, CpuAgentBackend when headless
+  private index: DataIndex;
+  private random: Random; // Shared seeded source, so a seed replays the same cycle
+  private config: SimulationConfig; // Shared with the other systems, read live
 
   // Building bridge data into the simulation at the start
   private pathwayLastHighlighted: Map<string, number> = new Map(); // Maps "source-target" to first appearance year
+  private clusterLastTargeted: Map<number, number> = new Map(); // Maps a cluster to the last year a Frontier journey headed there
+  private flows: CrossClusterFlows = new CrossClusterFlows(); // Agents spawned and arrived per cluster pair and year, for the latest pass over each year of the cycle
+  private recorder: CycleRecorder = new CycleRecorder(); // One sample per simulated year, for reports
+  private bridgeScorers: Record<BridgeScorerId, BridgeScorer> = createBridgeScorers();
 
   // Simulation state
-  public currentYear: number = 1981; // Start year
+  public currentYear: number; // Starts at START_YEAR
 
   // Protagonist cluster system
   private protagonistClusters: number[] = [];
   private lastTrioSwapYear: number = 0;
+  private protagonistStrategies: Record<ProtagonistStrategyId, ProtagonistStrategy>;
+
+  // Storyboard state: the chapter of the current year, and the chapter whose protagonists are in use
+  private storyboard: Storyboard | null;
+  private activeChapter: StoryboardChapter | null = null;
+  private protagonistChapter: StoryboardChapter | null = null;
   
   // Protagonist cluster colors
-  public readonly PROTAGONIST_COLORS = ['#db4135', '#ecb92e', '#101d43'];
+  public readonly PROTAGONIST_COLORS: string[];
 
   // Animation parameters (moved from SemanticGarden)
-  public readonly START_YEAR = 1981;
-  public readonly END_YEAR = 2025;
-  public readonly YEAR_DURATION = 12000;
-
-  // Zeitgeist Model - Projects are only active for a limited time window
-  public readonly PROJECT_ACTIVE_WINDOW_YEARS = 5.0; // Projects fade after this period
-
-  // Agent hierarchy configuration
-  private readonly ECOSYSTEM_BRIGHTNESS = 0.6; // Increased brightness for better visibility
-  private readonly FRONTIER_BRIGHTNESS = 1.0; // Full brightness for protagonist Frontier agents
-
-  // Scoring weights for selecting Frontier agents
-  private readonly W_RECENCY = 1.2;
-  private readonly W_INTENSITY = 1.5; // Increased from 1.0 for better narrative momentum
-  private readonly W_BRIDGE_BUILDING = 0.5;
-
-  // Agent configuration
-  private readonly AGENT_SPEED = 3.0; // Base speed for agents
-  private readonly MAX_TOTAL_AGENTS = 600; // Increased from 500 to 600 for high density
-  private readonly MAX_AGENTS_PER_FRAME = 30; // Increased from 350 to 30 for better control
-  private readonly MIN_SPAWN_SIMILARITY = 0.68;
-  
-  // Time-based scaling configuration
-  private readonly RAMP_UP_START_YEAR = 10; // Start ramping up after 10 years (1991)
-  private readonly RAMP_UP_DURATION_YEARS = 15; // Reach full intensity by year 25 (2006)
-  
-  // --- New Lifespan Controls ---
-  private readonly ECOSYSTEM_LIFESPAN_MIN = 3000; // frames
-  private readonly ECOSYSTEM_LIFESPAN_MAX = 9000; // frames
-  private readonly FRONTIER_LIFESPAN_MIN = 8000; // frames
-  private readonly FRONTIER_LIFESPAN_MAX = 12500; // frames
+  public readonly START_YEAR: number;
+  public readonly END_YEAR: number;
 
   // Canvas dimensions for bounds checking
   private width: number;
@@ -60,24 +70,41 @@ export class Simulation {
 
   private lastYearProcessed: number = 0;
   
-  // Population maintenance throttling
+  // Population maintenance throttling, counted in simulated time
+  private elapsedSeconds: number = 0;
   private lastPopulationCheck: number = 0;
-  private readonly POPULATION_CHECK_INTERVAL = 1000; // Check every 1 second (in milliseconds)
 
   constructor(
     particleSystem: ParticleSystem,
-    gpuSystem: GPUSystem,
-    data: ClusteredData,
-    bridgeData: Bridge[],
+    agents: AgentBackend,
+    index: DataIndex,
+    random: Random,
+    config: SimulationConfig,
     width: number,
-    height: number
+    height: number,
+    options: SimulationOptions = {}
   ) {
     this.particleSystem = particleSystem;
-    this.gpuSystem = gpuSystem;
-    this.data = data;
-    this.bridgeData = bridgeData;
+    this.agents = agents;
+    this.index = index;
+    this.random = random;
+    this.config = config;
     this.width = width;
     this.height = height;
+
+    const timeline = computeTimelineRange(index.projects, index.bridges, {
+      startYear: options.startYear,
+      endYear: options.endYear
+    });
+    this.START_YEAR = timeline.startYear;
+    this.END_YEAR = timeline.endYear;
+    console.log(`📅 Timeline ${this.START_YEAR}–${this.END_YEAR}`);
+
+    const palette = options.palette ?? [];
+    this.PROTAGONIST_COLORS = [...palette, ...DEFAULT_PROTAGONIST_COLORS.slice(palette.length)];
+    this.protagonistStrategies = createProtagonistStrategies(options.protagonistEras);
+    this.storyboard = options.storyboard ?? null;
+    this.currentYear = this.START_YEAR;
   }
 
   public resize(width: number, height: number): void {
@@ -85,20 +112,92 @@ export class Simulation {
     this.height = height;
   }
 
+  /**
+   * Rewinds the narrative state to the start of the timeline for a new cycle.
+   * The random source keeps running, so every cycle differs but a seed still replays them all.
+   */
+  public reset(): void {
+    // The year that was running when the cycle ended has not been sampled yet
+    this.recordRunningYear();
+    this.recorder.reset();
+
+    this.currentYear = this.START_YEAR;
+    this.protagonistClusters = [];
+    Object.values(this.protagonistStrategies).forEach(strategy => strategy.reset());
+    this.lastTrioSwapYear = 0;
+    this.activeChapter = null;
+    this.protagonistChapter = null;
+    this.particleSystem.setHighlightedProjects([]);
+    this.lastYearProcessed = 0;
+    this.elapsedSeconds = 0;
+    this.lastPopulationCheck = 0;
+    this.pathwayLastHighlighted.clear();
+    this.clusterLastTargeted.clear();
+    this.flows.clear();
+  }
+
+  /**
+   * Jumps to any year of the timeline: rebuilds the protagonist trio of that period, settles the
+   * project particles and spawns an agent population as if the simulation had been running.
+   * Trails, effects and UI are cleared by the caller.
+   */
+  public seek(year: number): void {
+    const target = Math.min(Math.max(year, this.START_YEAR), this.END_YEAR);
+    const targetSimYear = Math.floor(target);
+    const firstSimYear = Math.floor(this.START_YEAR);
+    this.recordRunningYear(); // The year left behind ends here
+    this.flows.clearYears(targetSimYear); // Years from here on are played again, so they count over
+    this.currentYear = target;
+
+    this.agents.reset();
+    this.particleSystem.settle(target, this.config.timeline.activeWindowYears);
+    this.pathwayLastHighlighted.clear();
+    this.clusterLastTargeted.clear();
+    this.updateChapter();
+
+    // Trios are chosen every protagonistPeriodYears counted from the start of the timeline
+    const period = this.config.timeline.protagonistPeriodYears;
+    this.selectNewProtagonistClusters();
+    this.lastTrioSwapYear = firstSimYear + Math.floor((targetSimYear - firstSimYear) / period) * period;
+
+    // The seeded population stands in for this year's tick
+    this.lastYearProcessed = targetSimYear;
+    this.lastPopulationCheck = this.elapsedSeconds;
+
+    const { maxTotalAgents, populationTargetFraction } = this.config.spawning;
+    const population = Math.floor(maxTotalAgents * populationTargetFraction * this.calculateTimeBasedScaling());
+    const agentSpawns = this.createPopulationSpawnData(population, true);
+    for (const agentData of agentSpawns) {
+      // Stagger ages so the population does not die out all at once
+      agentData.age = this.random.next() * agentData.maxAge * 0.5;
+    }
+    // Not counted in the flows: the seeded population stands in for agents of earlier years
+    if (agentSpawns.length > 0) this.agents.spawnAgents(agentSpawns);
+
+    console.log(`⏩ Seeked to ${target.toFixed(1)} with ${agentSpawns.length} agents`);
+  }
+
   /**
    * Get current protagonist clusters with their information
    */
   public getProtagonistClusters(): Array<{id: number, color: string, name: string}> {
     return this.protagonistClusters.map((clusterId, index) => {
-      const cluster = this.data.clusters.find(c => c.id === clusterId);
+      const cluster = this.index.getCluster(clusterId);
       return {
         id: clusterId,
         color: this.PROTAGONIST_COLORS[index] || '#666666',
-        name: cluster?.topTerms?.[0] || `Cluster ${clusterId}`
+        name: cluster?.displayName || `Cluster ${clusterId}`
       };
     });
   }
 
+  /**
+   * The storyboard chapter covering the current year, null without a storyboard or between chapters
+   */
+  public getCurrentChapter(): StoryboardChapter | null {
+    return this.activeChapter;
+  }
+
   /**
    * Get the color for a specific cluster if it's a protagonist cluster
    */
@@ -107,27 +206,105 @@ export class Simulation {
     return index >= 0 ? this.PROTAGONIST_COLORS[index] : null;
   }
 
-  public update(): void {
+  /**
+   * Source→target counts of the agents spawned and arrived so far this cycle, per year
+   */
+  public getCrossClusterFlows(): CrossClusterFlows {
+    return this.flows;
+  }
+
+  /**
+   * Year-by-year samples of this cycle and the last finished one
+   */
+  public getCycleRecorder(): CycleRecorder {
+    return this.recorder;
+  }
+
+  /**
+   * Samples the year in progress now rather than when it ends, so an export includes it.
+   */
+  public recordRunningYear(): void {
+    if (this.lastYearProcessed !== 0) this.recordYear(this.lastYearProcessed);
+  }
+
+  /**
+   * Picks the next leg of a multi-hop Frontier journey when the agent arrives: the best scoring bridge
+   * out of the cluster it reached, within the active window, towards a cluster it has not visited yet.
+   * Returns null when the journey should end there. Runs once per arrival, as it draws from the seeded
+   * random source and updates the scoring history.
+   */
+  public continueFrontierJourney(mirror: FrontierAgentMirror): FrontierJourneyLeg | null {
+    const legSource = mirror.itinerary[mirror.itinerary.length - 2]?.clusterId ?? mirror.sourceClusterId;
+    this.flows.record('arrived', legSource, mirror.targetClusterId, this.currentYear);
+
+    if (mirror.itinerary.length - 1 >= this.config.spawning.maxJourneyLegs) return null;
+
+    const visited = new Set(mirror.itinerary.map(stop => stop.clusterId));
+    const followUps = this.findBridgesInWindow().filter(bridge =>
+      bridge.source_cluster === mirror.targetClusterId && !visited.has(bridge.target_cluster)
+    );
+
+    const best = this.scoreBestBridge(followUps);
+    const target = best
+      ? this.resolveTarget(best.bridge, this.particleSystem.getProjectScreenPositions(), this.particleSystem.getClusters())
+      : null;
+    if (!best || !target) return null;
+
+    this.recordFrontierJourney(best.bridge);
+    this.flows.record('departed', mirror.targetClusterId, best.bridge.target_cluster, this.currentYear);
+    const lifespans = this.config.lifespans;
+    return {
+      targetClusterId: best.bridge.target_cluster,
+      targetClusterName: this.getClusterName(best.bridge.target_cluster),
+      targetX: target.x,
+      targetY: target.y,
+      targetProjectId: target.projectId,
+      bridgeStrength: this.getBridgeStrength(best.bridge),
+      directive_noun: this.getDirectiveNoun(best.bridge.target_cluster),
+      maxAge: this.random.range(lifespans.frontierMin, lifespans.frontierMax),
+      startYear: this.currentYear,
+      score: best.score
+    };
+  }
+
+  /**
+   * Advances the narrative by one fixed simulation step. The caller moves currentYear.
+   */
+  public update(stepSeconds: number): void {
+    this.elapsedSeconds += stepSeconds;
 
-    // --- SECTION 1: PER-FRAME LOGIC ---
+    // --- SECTION 1: PER-STEP LOGIC ---
 
     // Update particle system with temporal window
-    this.particleSystem.update(this.currentYear, this.PROJECT_ACTIVE_WINDOW_YEARS);
+    this.particleSystem.update(this.currentYear, this.config.timeline.activeWindowYears);
+
+    // Follow the storyboard into the chapter of the current year
+    this.updateChapter();
 
     // Clean up expired frontier agent counts periodically
     this.cleanupFrontierAgents();
 
+    // A year entered again (in reverse playback) counts over, before anything spawns in it
+    const currentSimYear = Math.floor(this.currentYear);
+    if (currentSimYear !== this.lastYearProcessed) this.flows.clearYears(currentSimYear, currentSimYear);
+
     // --- NEW: CONTINUOUS POPULATION MAINTENANCE ---
     // Ensure we maintain a healthy agent population at all times
     this.maintainAgentPopulation();
 
     // --- SECTION 2: YEARLY TICK LOGIC ---
     // We have already processed this year, so we don't spawn new agents.
-    const currentSimYear = Math.floor(this.currentYear);
-    if (currentSimYear <= this.lastYearProcessed) return;
+    // Any change of year is a tick, so reverse playback ticks too.
+    if (currentSimYear === this.lastYearProcessed) return;
+
+    // Sample the year that just ended, before its trio makes way for the next
+    this.recordRunningYear();
   
-    // Check if we need to swap protagonist clusters every 5 years
-    if (currentSimYear - this.lastTrioSwapYear >= 5 || this.protagonistClusters.length === 0) {
+    // Check if we need to swap protagonist clusters (every 5 years by default, in either direction).
+    // A chapter with its own protagonists holds them for as long as it runs.
+    const chapterChanged = this.getProtagonistChapter() !== this.protagonistChapter;
+    const periodElapsed = Math.abs(currentSimYear - this.lastTrioSwapYear) >= this.config.timeline.protagonistPeriodYears;
+    if (chapterChanged || (!this.protagonistChapter && periodElapsed) || this.protagonistClusters.length === 0) {
       this.selectNewProtagonistClusters();
       this.lastTrioSwapYear = currentSimYear;
       console.log(`New Protagonist Clusters: ${this.protagonistClusters.join(', ')}`);
@@ -140,10 +317,10 @@ export class Simulation {
 
 
     // --- 2. Apply the Hard Caps with Time-Based Scaling ---
-    const currentAgentCount = this.gpuSystem.getActiveAgentCount();
-    const availableSlots = this.MAX_TOTAL_AGENTS - currentAgentCount;
+    const currentAgentCount = this.agents.getActiveAgentCount();
+    const availableSlots = Math.max(0, this.config.spawning.maxTotalAgents - currentAgentCount);
     const timeScaling = this.calculateTimeBasedScaling();
-    const scaledMaxAgentsPerFrame = Math.max(1, Math.round(this.MAX_AGENTS_PER_FRAME * timeScaling));
+    const scaledMaxAgentsPerFrame = Math.max(1, Math.round(this.config.spawning.maxAgentsPerFrame * timeScaling));
 
     if (bridgesInWindow.length > availableSlots) {
       // If we have more potential spawns than available slots,
@@ -158,16 +335,16 @@ export class Simulation {
     }
 
     // --- 3. Proceed with the (now strictly limited) list of bridges ---
-    const frontierBridge = this.selectFrontierBridge(bridgesInWindow);
+    const frontier = this.selectFrontierBridge(bridgesInWindow);
     // Filter ecosystem bridges to only include those from protagonist clusters
     const ecosystemBridges = bridgesInWindow.filter(b => 
-      b !== frontierBridge && this.protagonistClusters.includes(b.source_cluster)
+      b !== frontier?.bridge && this.protagonistClusters.includes(b.source_cluster)
     );
 
-    // Spawn agents directly into GPU textures for detected pathway activities
-    const agentSpawns = this.createAgentSpawnData(frontierBridge, ecosystemBridges);
+    // Spawn agents into the agent backend for detected pathway activities
+    const agentSpawns = this.createAgentSpawnData(frontier, ecosystemBridges);
 
-    if (agentSpawns.length > 0) this.gpuSystem.spawnAgents(agentSpawns);
+    if (agentSpawns.length > 0) this.spawnAgents(agentSpawns);
 
     // Mark this year as processed.
     this.lastYearProcessed = currentSimYear;
@@ -179,17 +356,18 @@ export class Simulation {
    */
   private maintainAgentPopulation(): void {
     // Throttle population checks to avoid spamming
-    const now = performance.now();
-    if (now - this.lastPopulationCheck < this.POPULATION_CHECK_INTERVAL) {
+    const intervalSeconds = this.config.spawning.populationCheckIntervalMs / 1000;
+    if (this.elapsedSeconds - this.lastPopulationCheck < intervalSeconds) {
       return;
     }
-    this.lastPopulationCheck = now;
+    this.lastPopulationCheck = this.elapsedSeconds;
     
-    const currentAgentCount = this.gpuSystem.getActiveAgentCount();
+    const currentAgentCount = this.agents.getActiveAgentCount();
     const timeScaling = this.calculateTimeBasedScaling();
     
     // Calculate target population based on time scaling
-    const targetPopulation = Math.floor(this.MAX_TOTAL_AGENTS * 0.7 * timeScaling); // 70% of max capacity
+    const { maxTotalAgents, populationTargetFraction } = this.config.spawning;
+    const targetPopulation = Math.floor(maxTotalAgents * populationTargetFraction * timeScaling); // 70% of max capacity by default
     const shortfall = Math.max(0, targetPopulation - currentAgentCount);
     
     if (shortfall === 0) return; // Population is healthy
@@ -197,19 +375,87 @@ export class Simulation {
     // Limit spawning rate to prevent frame drops
     const maxSpawnsPerFrame = Math.min(shortfall, 8); // Increased from 5 to spawn more when needed
     
+    const agentSpawns = this.createPopulationSpawnData(maxSpawnsPerFrame);
+    
+    if (agentSpawns.length > 0) {
+      this.spawnAgents(agentSpawns);
+      // Only log significant population changes to avoid spam
+      if (shortfall > 10) {
+        console.log(`🔄 Population maintenance: Spawned ${agentSpawns.length} agents (${currentAgentCount} -> ${currentAgentCount + agentSpawns.length}, target: ${targetPopulation})`);
+      }
+    }
+  }
+
+  // The counts come from the flows, which keep only the latest pass over each year,
+  // so the sample of a year played again carries that pass alone
+  private recordYear(year: number): void {
+    const windowStart = year - this.config.timeline.activeWindowYears;
+    const pool = this.agents.getPoolStats();
+    const spawned = this.flows.getActivity('spawned', year, year);
+    const arrived = this.flows.getActivity('arrived', year, year);
+
+    const clusters = new Map<number, ClusterYearActivity>();
+    const clusterActivity = (clusterId: number): ClusterYearActivity => {
+      let activity = clusters.get(clusterId);
+      if (!activity) {
+        activity = {
+          clusterId,
+          name: this.getClusterName(clusterId),
+          activeProjects: this.index.countActiveProjects(clusterId, windowStart, year),
+          spawned: 0,
+          arrived: 0
+        };
+        clusters.set(clusterId, activity);
+      }
+      return activity;
+    };
+    this.index.getActiveClusterIds(windowStart, year).forEach(clusterActivity);
+    spawned.forEach(flow => clusterActivity(flow.sourceCluster).spawned += flow.count);
+    arrived.forEach(flow => clusterActivity(flow.targetCluster).arrived += flow.count);
+
+    this.recorder.record({
+      year,
+      activeAgents: pool.active,
+      agentsBySpecies: pool.bySpecies,
+      bridgesInWindow: this.index.getBridgesInWindow(windowStart, year, this.config.spawning.minSpawnSimilarity).length,
+      spawns: spawned.reduce((sum, flow) => sum + flow.count, 0),
+      frontierDepartures: this.flows.getActivity('departed', year, year).reduce((sum, flow) => sum + flow.count, 0),
+      arrivals: arrived.reduce((sum, flow) => sum + flow.count, 0),
+      poolCapacity: pool.capacity,
+      poolPressure: pool.capacity > 0 ? pool.active / pool.capacity : 0,
+      protagonists: this.getProtagonistClusters().map(({ id, name }) => ({ id, name })),
+      clusters: Array.from(clusters.values()).sort((a, b) => a.clusterId - b.clusterId)
+    });
+  }
+
+  // Hands new agents to the backend and counts the ones it accepted in the cross-cluster flows
+  private spawnAgents(agentSpawns: AgentSpawnData[]): void {
+    for (const agentData of this.agents.spawnAgents(agentSpawns)) {
+      this.flows.record('spawned', agentData.sourceClusterId!, agentData.targetClusterId!, agentData.spawnYear);
+      if (agentData.isFrontier) {
+        this.flows.record('departed', agentData.sourceClusterId!, agentData.targetClusterId!, agentData.spawnYear);
+      }
+    }
+  }
+
+  /**
+   * Builds Ecosystem agents for the best bridges in the active window, one per bridge unless
+   * allowRepeats cycles through the bridges again to reach the requested count.
+   */
+  private createPopulationSpawnData(count: number, allowRepeats: boolean = false): AgentSpawnData[] {
     // Get available bridges for spawning
-    let bridgesInWindow = this.findBridgesInWindow();
-    if (bridgesInWindow.length === 0) return; // No bridges available
+    const bridgesInWindow = this.findBridgesInWindow();
+    if (bridgesInWindow.length === 0) return []; // No bridges available
     
     // Sort by similarity score for best quality agents
     bridgesInWindow.sort((a, b) => b.similarity_score - a.similarity_score);
     
-    // Create spawn data for population maintenance
     const agentSpawns: AgentSpawnData[] = [];
     const projectScreenPositions = this.particleSystem.getProjectScreenPositions();
     const clusterCentroids = this.particleSystem.getClusters();
     
-    for (let i = 0; i < maxSpawnsPerFrame && i < bridgesInWindow.length; i++) {
+    const total = allowRepeats ? count : Math.min(count, bridgesInWindow.length);
+    for (let i = 0; i < total; i++) {
       const bridge = bridgesInWindow[i % bridgesInWindow.length]; // Cycle through bridges
       
       // Prefer ecosystem agents for population maintenance (lighter weight)
@@ -224,52 +470,14 @@ export class Simulation {
       if (agentData) {
         // Give these maintenance agents shorter lifespans for faster turnover
         agentData.maxAge *= 0.8;
+        if (this.random.next() < this.config.spawning.wandererShare) agentData.species = 'wanderer';
         agentSpawns.push(agentData);
       }
     }
-    
-    if (agentSpawns.length > 0) {
-      this.gpuSystem.spawnAgents(agentSpawns);
-      // Only log significant population changes to avoid spam
-      if (shortfall > 10) {
-        console.log(`🔄 Population maintenance: Spawned ${agentSpawns.length} agents (${currentAgentCount} -> ${currentAgentCount + agentSpawns.length}, target: ${targetPopulation})`);
-      }
-    }
+    return agentSpawns;
   }
 
-  private calculateRecencyScore(sourceCluster: number, targetCluster: number): number {
-    const key = this.createPathwayKey(sourceCluster, targetCluster);
-    if (!this.pathwayLastHighlighted.has(key)) {
-      return 1.0; // Max score for brand new pathways.
-    }
-
-    const lastHighlightedYear = this.pathwayLastHighlighted.get(key)!;
-    const yearsSinceHighlighted = this.currentYear - lastHighlightedYear;
-
-    if (yearsSinceHighlighted < 1.0) return 0.0;
-
-    // Use a logarithmic scale. A 25-year dormancy is like new again.
-    const recencyScore = Math.log(1.0 + yearsSinceHighlighted) / Math.log(25.0);
-    return Math.max(0.0, Math.min(recencyScore, 1.0));
-  }
-
-  private calculateBridgeBuildingScore(sourceClusterId: number, targetClusterId: number): number {
-    const clusters = this.particleSystem.getClusters();
-    const sourceCluster = clusters.get(sourceClusterId);
-    const targetCluster = clusters.get(targetClusterId);
-
-    if (!sourceCluster || !targetCluster) return 0.0;
-
-    const dx = sourceCluster.centerX - targetCluster.centerX;
-    const dy = sourceCluster.centerY - targetCluster.centerY;
-    const distance = Math.hypot(dx, dy);
-
-    // Normalize by the max possible distance (diagonal of the canvas).
-    const maxDistance = Math.hypot(this.width, this.height);
-    return distance / maxDistance;
-  }
-
-  private selectFrontierBridge(bridgesInWindow: Bridge[]): Bridge | null {
+  private selectFrontierBridge(bridgesInWindow: Bridge[]): { bridge: Bridge; score: FrontierScore } | null {
     if (bridgesInWindow.length === 0) {
       return null;
     }
@@ -283,73 +491,83 @@ export class Simulation {
       return null; // No bridges from protagonist clusters
     }
 
-    let frontierBridge: Bridge | null = null;
-    let highestScore = -Infinity;
-
-    // Evaluate each bridge and find the one with the highest combined score
-    for (const bridge of protagonistBridges) {
-      // Calculate recency score - how long since this pathway was last highlighted
-      const recencyScore = this.calculateRecencyScore(bridge.source_cluster, bridge.target_cluster);
-
-      // Intensity score comes directly from the bridge similarity data
-      const intensityScore = bridge.similarity_score;
-
-      // Bridge building score - favors connections between distant clusters
-      const bridgeBuildingScore = this.calculateBridgeBuildingScore(bridge.source_cluster, bridge.target_cluster);
+    const best = this.scoreBestBridge(protagonistBridges);
+    if (best) this.recordFrontierJourney(best.bridge);
+    return best;
+  }
 
-      // Combine all scores using weighted formula
-      const finalScore = (recencyScore * this.W_RECENCY) +
-        (intensityScore * this.W_INTENSITY) +
-        (bridgeBuildingScore * this.W_BRIDGE_BUILDING);
+  // Evaluate each bridge with the configured scorer and find the one with the highest combined score
+  private scoreBestBridge(bridges: Bridge[]): { bridge: Bridge; score: FrontierScore } | null {
+    const scorer = this.bridgeScorers[this.config.scoring.scorer];
+    const context: BridgeScoringContext = {
+      year: this.currentYear,
+      index: this.index,
+      clusters: this.particleSystem.getClusters(),
+      canvasDiagonal: Math.hypot(this.width, this.height),
+      weights: this.config.scoring,
+      lastPathwayYear: (source, target) => this.pathwayLastHighlighted.get(this.createPathwayKey(source, target)),
+      lastTargetYear: clusterId => this.clusterLastTargeted.get(clusterId)
+    };
 
-      // Track the bridge with the highest score
-      if (finalScore > highestScore) {
-        highestScore = finalScore;
-        frontierBridge = bridge;
+    let best: { bridge: Bridge; score: FrontierScore } | null = null;
+    for (const bridge of bridges) {
+      const score = scorer.score(bridge, context);
+      if (!best || score.total > best.score.total) {
+        best = { bridge, score };
       }
     }
+    return best;
+  }
 
-    // Record that this pathway just got highlighted
-    if (frontierBridge) {
-      const key = this.createPathwayKey(frontierBridge.source_cluster, frontierBridge.target_cluster);
-      this.pathwayLastHighlighted.set(key, this.currentYear);
-    }
+  // Record that this pathway and target just got highlighted
+  private recordFrontierJourney(bridge: Bridge): void {
+    const key = this.createPathwayKey(bridge.source_cluster, bridge.target_cluster);
+    this.pathwayLastHighlighted.set(key, this.currentYear);
+    this.clusterLastTargeted.set(bridge.target_cluster, this.currentYear);
+  }
+
+  // Highlights the projects of a newly entered chapter
+  private updateChapter(): void {
+    const chapter = this.storyboard?.getChapter(this.currentYear) ?? null;
+    if (chapter === this.activeChapter) return;
+
+    this.activeChapter = chapter;
+    this.particleSystem.setHighlightedProjects(chapter?.highlightedProjects ?? []);
+    if (chapter) console.log(`📖 Chapter "${chapter.title}" (${chapter.startYear}–${chapter.endYear})`);
+  }
 
-    return frontierBridge;
+  // The current chapter if it names its own protagonists
+  private getProtagonistChapter(): StoryboardChapter | null {
+    const chapter = this.activeChapter;
+    return chapter?.protagonists && chapter.protagonists.length > 0 ? chapter : null;
   }
 
   /**
-   * Randomly selects 3 unique clusters to be the protagonists for the next 5-year period
-   * Only selects clusters that have active projects in the current time window
+   * Picks the protagonists for the next period: those of the storyboard chapter if it names any,
+   * otherwise up to protagonistCount clusters from the configured strategy (see src/narrative/strategies.ts)
    */
   private selectNewProtagonistClusters(): void {
-    const windowStart = this.currentYear - this.PROJECT_ACTIVE_WINDOW_YEARS;
-    const windowEnd = this.currentYear;
-    
-    // Find clusters that have projects with years in the active window
-    const clustersWithActiveProjects = this.data.clusters.filter(cluster => {
-      return this.data.projects.some(project => 
-        project.cluster_id === cluster.id && 
-        project.year >= windowStart && 
-        project.year <= windowEnd
-      );
-    });
-    
-    const availableClusterIds = clustersWithActiveProjects.map(cluster => cluster.id);
-    const selectedClusters: number[] = [];
-    
-    // Randomly select up to 3 unique clusters from those with active projects
-    while (selectedClusters.length < 3 && availableClusterIds.length > 0) {
-      const randomIndex = Math.floor(Math.random() * availableClusterIds.length);
-      const selectedCluster = availableClusterIds.splice(randomIndex, 1)[0];
-      selectedClusters.push(selectedCluster);
+    const chapter = this.getProtagonistChapter();
+    this.protagonistChapter = chapter;
+    if (chapter) {
+      this.protagonistClusters = chapter.protagonists!.slice(0, this.PROTAGONIST_COLORS.length);
+      return;
     }
-    
-    this.protagonistClusters = selectedClusters;
-    
-    // Log if we couldn't find 3 active clusters
-    if (selectedClusters.length < 3) {
-      console.warn(`Only found ${selectedClusters.length} clusters with active projects in year ${Math.floor(this.currentYear)}`);
+
+    const { protagonistStrategy, protagonistCount, activeWindowYears } = this.config.timeline;
+    const strategy = this.protagonistStrategies[protagonistStrategy];
+
+    this.protagonistClusters = strategy.select({
+      index: this.index,
+      random: this.random,
+      year: this.currentYear,
+      windowYears: activeWindowYears,
+      count: protagonistCount
+    });
+
+    // Log if we couldn't find enough active clusters
+    if (this.protagonistClusters.length < protagonistCount) {
+      console.warn(`Only found ${this.protagonistClusters.length} of ${protagonistCount} protagonist clusters in year ${Math.floor(this.currentYear)} (${strategy.id})`);
     }
   }
 
@@ -358,14 +576,10 @@ export class Simulation {
    * Filters the bridges dats to return only those bridges whose year falls within the currentYear's active window.
    */
   private findBridgesInWindow(): Bridge[] {
-    const windowStart = this.currentYear - this.PROJECT_ACTIVE_WINDOW_YEARS;
+    const windowStart = this.currentYear - this.config.timeline.activeWindowYears;
     const windowEnd = this.currentYear;
 
-    const bridgesInTime = this.bridgeData.filter(bridge =>
-      bridge.year >= windowStart && bridge.year <= windowEnd
-    );
-
-    const highQualityBridges = bridgesInTime.filter(b => b.similarity_score > this.MIN_SPAWN_SIMILARITY);
+    const highQualityBridges = this.index.getBridgesInWindow(windowStart, windowEnd, this.config.spawning.minSpawnSimilarity);
 
     // TEMPORARY DEBUG LOG
     if (highQualityBridges.length > 0) {
@@ -382,18 +596,21 @@ export class Simulation {
 
   /**
    * Calculate time-based scaling factor for agent spawning
-   * Returns 0.1 at start, gradually increases to 1.0 over RAMP_UP_DURATION_YEARS
+   * Returns 0.1 at start, gradually increases to 1.0 over the ramp-up share of the timeline
    */
   private calculateTimeBasedScaling(): number {
     const yearsElapsed = this.currentYear - this.START_YEAR;
+    const span = this.END_YEAR - this.START_YEAR;
+    const rampUpStartYear = span * this.config.timeline.rampUpStartFraction; // Years after START_YEAR
+    const rampUpDurationYears = span * this.config.timeline.rampUpDurationFraction;
     
     // Before ramp-up period: very low spawning (10%)
-    if (yearsElapsed < this.RAMP_UP_START_YEAR) {
+    if (yearsElapsed < rampUpStartYear) {
       return 0.1;
     }
     
     // During ramp-up period: gradually increase from 10% to 100%
-    const rampUpProgress = (yearsElapsed - this.RAMP_UP_START_YEAR) / this.RAMP_UP_DURATION_YEARS;
+    const rampUpProgress = (yearsElapsed - rampUpStartYear) / rampUpDurationYears;
     if (rampUpProgress < 1.0) {
       return 0.1 + (0.9 * rampUpProgress); // Smooth transition from 0.1 to 1.0
     }
@@ -406,39 +623,43 @@ export class Simulation {
     bridge: Bridge,
     isFrontier: boolean,
     projectPositions: Map<string, { x: number; y: number }>,
-    clusterCentroids: Map<number, any>
+    clusterCentroids: Map<number, ClusterInfo>,
+    score?: FrontierScore // Why the bridge was chosen, kept on Frontier agents
   ): AgentSpawnData | null {
-    const sourcePosition = projectPositions.get(bridge.project_id.toString());
-    const targetCentroid = clusterCentroids.get(bridge.target_cluster);
+    const projectPosition = projectPositions.get(bridge.project_id.toString());
+    const target = this.resolveTarget(bridge, projectPositions, clusterCentroids);
 
     // If we can't find coordinates, we cannot create an agent.
-    if (!sourcePosition || !targetCentroid) {
+    if (!projectPosition || !target) {
       console.warn(`Could not find screen positions for bridge from project ${bridge.project_id}.`);
       return null;
     }
 
-    // Give agents a more noisy starting position
-    sourcePosition.x += (Math.random() - 0.5) * 50; // Random offset in x
-    sourcePosition.y += (Math.random() - 0.5) * 50; // Random offset in y
+    // Give agents a more noisy starting position (on a copy, the positions map is shared)
+    const sourcePosition = {
+      x: projectPosition.x + (this.random.next() - 0.5) * 50, // Random offset in x
+      y: projectPosition.y + (this.random.next() - 0.5) * 50 // Random offset in y
+    };
 
     // --- Agent speed and lifespan configuration ---
-    let agentSpeed = this.AGENT_SPEED;
+    const lifespans = this.config.lifespans;
+    let agentSpeed = this.config.spawning.initialSpeed;
     let maxAge: number;
 
     if (isFrontier) {
       agentSpeed *= 1.5; // Frontier agents are fastest
-      maxAge = this.FRONTIER_LIFESPAN_MIN + Math.random() * (this.FRONTIER_LIFESPAN_MAX - this.FRONTIER_LIFESPAN_MIN);
+      maxAge = this.random.range(lifespans.frontierMin, lifespans.frontierMax);
     } else {
       // Bridge Ecosystem agents - all agents are now target-driven
-      maxAge = this.ECOSYSTEM_LIFESPAN_MIN + Math.random() * (this.ECOSYSTEM_LIFESPAN_MAX - this.ECOSYSTEM_LIFESPAN_MIN);
+      maxAge = this.random.range(lifespans.ecosystemMin, lifespans.ecosystemMax);
     }
 
     // Add a small random offset to the speed for variation
-    agentSpeed += (Math.random() - 0.5) * 0.5;
+    agentSpeed += (this.random.next() - 0.5) * 0.5;
 
     // --- Physics - All agents are target-driven ---
-    const dx = targetCentroid.centerX - sourcePosition.x;
-    const dy = targetCentroid.centerY - sourcePosition.y;
+    const dx = target.x - sourcePosition.x;
+    const dy = target.y - sourcePosition.y;
     const distance = Math.hypot(dx, dy) || 1;
     const vx = (dx / distance) * agentSpeed;
     const vy = (dy / distance) * agentSpeed;
@@ -446,25 +667,31 @@ export class Simulation {
     // --- Visuals ---
     const clusterHue = (bridge.source_cluster * 137.508) % 360;
 
+    // Stronger bridges make brighter agents (their speed, wander and trails are shaped on the GPU)
+    const bridgeStrength = this.getBridgeStrength(bridge);
+    const baseBrightness = isFrontier ? lifespans.frontierBrightness : lifespans.ecosystemBrightness;
+    const brightness = Math.min(1.0, baseBrightness * (1.0 + this.config.steering.similarityInfluence * (bridgeStrength - 0.5) * 0.5));
+
     // --- UI & Narrative (only for Frontier agents) ---
     let directive_verb: string | undefined;
     let directive_noun: string | undefined;
     let projectTitle: string | undefined;
     let sourceClusterName: string | undefined;
     let sourceClusterColor: string | undefined;
+    let targetClusterName: string | undefined;
 
     if (isFrontier) {
       directive_verb = this.getRandomDirectiveVerb();
       directive_noun = this.getDirectiveNoun(bridge.target_cluster);
       
       // Find the project title
-      const project = this.data.projects.find(p => parseInt(p.id) === bridge.project_id);
+      const project = this.index.getProject(bridge.project_id);
       projectTitle = project ? project.title : `Project ${bridge.project_id}`;
       
       // Find source cluster information
-      const sourceCluster = this.data.clusters.find(c => c.id === bridge.source_cluster);
-      sourceClusterName = sourceCluster?.topTerms?.[0] || `Cluster ${bridge.source_cluster}`;
+      sourceClusterName = this.getClusterName(bridge.source_cluster);
       sourceClusterColor = this.getClusterColor(bridge.source_cluster) || '#666666';
+      targetClusterName = this.getClusterName(bridge.target_cluster);
     }
 
     return {
@@ -472,13 +699,16 @@ export class Simulation {
       y: sourcePosition.y,
       vx: vx,
       vy: vy,
-      targetClusterX: targetCentroid.centerX,
-      targetClusterY: targetCentroid.centerY,
+      targetClusterX: target.x,
+      targetClusterY: target.y,
+      targetProjectId: target.projectId,
       age: 0,
       maxAge: maxAge,
       spawnYear: this.currentYear, // NEW: Stamp with the current simulation year
       isFrontier: isFrontier,
-      brightness: isFrontier ? this.FRONTIER_BRIGHTNESS : this.ECOSYSTEM_BRIGHTNESS,
+      species: isFrontier ? 'frontier' : 'ecosystem',
+      brightness: brightness,
+      bridgeStrength: bridgeStrength,
       clusterHue: clusterHue,
       sourceClusterId: bridge.source_cluster,
       targetClusterId: bridge.target_cluster,
@@ -487,21 +717,64 @@ export class Simulation {
       projectTitle: projectTitle,
       sourceClusterName: sourceClusterName,
       sourceClusterColor: sourceClusterColor,
+      targetClusterName: targetClusterName,
+      score: isFrontier ? score : undefined,
     };
   }
 
   /**
-   * Gets the primary theme for a cluster and truncates it.
+   * Where an agent following the bridge heads: the target cluster's centroid, or in 'project' targeting
+   * the project of the target cluster, active in the window, most similar to the bridge's project.
+   * Falls back to the centroid when the cluster has no placed project in the window.
    */
-  private getDirectiveNoun(targetClusterId: number): string {
-    const MAX_LABEL_WORDS = 5;
-    const targetClusterData = this.data.clusters.find(c => c.id === targetClusterId);
-    let noun = targetClusterData?.topTerms[0] || `cluster ${targetClusterId}`;
-
-    if (noun.split(' ').length > MAX_LABEL_WORDS) {
-      noun = noun.split(' ').slice(0, MAX_LABEL_WORDS).join(' ') + '...';
+  private resolveTarget(
+    bridge: Bridge,
+    projectPositions: Map<string, { x: number; y: number }>,
+    clusterCentroids: Map<number, ClusterInfo>
+  ): { x: number; y: number; projectId?: string } | null {
+    const targetCentroid = clusterCentroids.get(bridge.target_cluster);
+    if (!targetCentroid) return null;
+
+    const sourceProject = this.index.getProject(bridge.project_id);
+    if (this.config.spawning.targeting === 'project' && sourceProject) {
+      const windowStart = this.currentYear - this.config.timeline.activeWindowYears;
+      let best: { x: number; y: number; projectId: string } | null = null;
+      let bestSimilarity = -1;
+      for (const candidate of this.index.getProjectsInCluster(bridge.target_cluster, windowStart, this.currentYear)) {
+        const position = projectPositions.get(candidate.id);
+        if (!position) continue;
+        const similarity = projectSimilarity(sourceProject, candidate);
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          best = { x: position.x, y: position.y, projectId: candidate.id };
+        }
+      }
+      if (best) return best;
     }
-    return noun;
+
+    return { x: targetCentroid.centerX, y: targetCentroid.centerY };
+  }
+
+  /**
+   * A bridge's similarity_score rescaled from [minSpawnSimilarity, 1] to [0, 1].
+   */
+  private getBridgeStrength(bridge: Bridge): number {
+    const minSimilarity = this.config.spawning.minSpawnSimilarity;
+    const scoreRange = 1.0 - minSimilarity;
+    if (scoreRange <= 0) return 1.0;
+    return Math.max(0.0, Math.min((bridge.similarity_score - minSimilarity) / scoreRange, 1.0));
+  }
+
+  private getClusterName(clusterId: number): string {
+    return this.index.getCluster(clusterId)?.displayName || `Cluster ${clusterId}`;
+  }
+
+  /**
+   * Gets the short label of a cluster (already truncated by the loader).
+   */
+  private getDirectiveNoun(targetClusterId: number): string {
+    const targetClusterData = this.index.getCluster(targetClusterId);
+    return targetClusterData?.shortLabel || `cluster ${targetClusterId}`;
   }
 
   /**
@@ -512,11 +785,11 @@ export class Simulation {
       'seeking', 'exploring', 'navigating', 'pursuing', 'musing over',
       'pondering', 'examining', 'reflecting on', 'considering', 'contemplating'
     ];
-    return choices[Math.floor(Math.random() * choices.length)];
+    return this.random.pick(choices);
   }
 
 
-  private createAgentSpawnData(frontierBridge: Bridge | null, ecosystemBridges: Bridge[]): AgentSpawnData[] {
+  private createAgentSpawnData(frontier: { bridge: Bridge; score: FrontierScore } | null, ecosystemBridges: Bridge[]): AgentSpawnData[] {
     // Initialize the array to collect all agent spawn data
     const allSpawnData: AgentSpawnData[] = [];
 
@@ -524,23 +797,24 @@ export class Simulation {
     const projectScreenPositions = this.particleSystem.getProjectScreenPositions();
     const clusterCentroids = this.particleSystem.getClusters();
     // Get existing frontier agent mirrors to avoid duplicates and enforce limits
-    const currentMirrors = this.gpuSystem.getFrontierAgentMirrors();
+    const currentMirrors = this.agents.getFrontierAgentMirrors();
     const existingNouns = new Set(currentMirrors.map(m => m.directive_noun));
 
     // Process the Frontier Agent (protagonist agent with highest priority)
-    if (frontierBridge) {
-      const noun = this.getDirectiveNoun(frontierBridge.target_cluster);
+    if (frontier) {
+      const noun = this.getDirectiveNoun(frontier.bridge.target_cluster);
 
       // Gatekeeper checks: determine if this bridge *qualifies* to create a Frontier Agent
-      // FRONTIER AGENTS ONLY: Limited to 10 total, must have unique directives for narrative clarity
-      const canBeFrontier = currentMirrors.length < 10 && !existingNouns.has(noun);
+      // FRONTIER AGENTS ONLY: Limited in number (10 by default), must have unique directives for narrative clarity
+      const canBeFrontier = currentMirrors.length < this.config.spawning.maxFrontierAgents && !existingNouns.has(noun);
       
       // The agent's role (and its data) is determined by the gatekeeper checks
       const agentData = this.buildAgentData(
-        frontierBridge,
+        frontier.bridge,
         canBeFrontier,
         projectScreenPositions,
-        clusterCentroids
+        clusterCentroids,
+        frontier.score
       );
 
       if (agentData) allSpawnData.push(agentData);
@@ -558,8 +832,7 @@ export class Simulation {
       const BASE_ECO_AGENTS_PER_BRIDGE = 2;
       const MAX_BONUS_AGENTS = 5; // Max bonus for a perfect similarity score
 
-      const scoreRange = 1.0 - this.MIN_SPAWN_SIMILARITY;
-      const normalizedScore = (bridge.similarity_score - this.MIN_SPAWN_SIMILARITY) / scoreRange;
+      const normalizedScore = this.getBridgeStrength(bridge);
       
       const bonusAgents = Math.round(normalizedScore * MAX_BONUS_AGENTS);
       const baseNumToSpawn = BASE_ECO_AGENTS_PER_BRIDGE + bonusAgents;
@@ -584,7 +857,9 @@ export class Simulation {
 
         if (agentData) {
           // --- Short, varied lifespan for high turnover ---
-          agentData.maxAge = this.ECOSYSTEM_LIFESPAN_MIN + Math.random() * (this.ECOSYSTEM_LIFESPAN_MAX - this.ECOSYSTEM_LIFESPAN_MIN) * 0.5;
+          const { ecosystemMin, ecosystemMax } = this.config.lifespans;
+          agentData.maxAge = ecosystemMin + this.random.next() * (ecosystemMax - ecosystemMin) * 0.5;
+          if (this.random.next() < this.config.spawning.scoutShare) agentData.species = 'scout';
           allSpawnData.push(agentData);
         }
       }
@@ -595,10 +870,13 @@ export class Simulation {
 
   // Clean up frontier agent tracking when agents die
   private cleanupFrontierAgents(): void {
-    const deadAgents = this.gpuSystem.getDeadFrontierAgents();
+    const deadAgents = this.agents.getDeadFrontierAgents();
     for (const mirror of deadAgents) {
-      const key = this.createPathwayKey(mirror.sourceClusterId, mirror.targetClusterId);
-      this.pathwayLastHighlighted.delete(key);
+      // Every leg of the journey frees its pathway
+      for (let i = 1; i < mirror.itinerary.length; i++) {
+        const key = this.createPathwayKey(mirror.itinerary[i - 1].clusterId, mirror.itinerary[i].clusterId);
+        this.pathwayLastHighlighted.delete(key);
+      }
     }
   }
 }
@@ -0,0 +1,78 @@
+import type { AgentSpawnData, ClusterInfo, FrontierAgentMirror, FrontierJourneyLeg } from '../data/interfaces';
+import type { AgentPoolStats } from './AgentPool';
+
+// What Simulation needs from the agents, whether they live in GPU textures (GPUSystem)
+// or in plain arrays (CpuAgentBackend, for headless runs and tests).
+// Stepping is not part of it: the GPU backend moves through the app's trail texture, the CPU backend through its own trail grid.
+
+export interface AgentBackend {
+  frontierArrivals: { x: number, y: number }[]; // Targets reached since the last updateFrontierMirrors call, for pings
+
+  spawnAgents(agentData: AgentSpawnData[]): AgentSpawnData[]; // Returns the agents the pool accepted
+  getActiveAgentCount(): number;
+  getMaxAgents(): number;
+  getFrontierAgentMirrors(): FrontierAgentMirror[]; // Frontier agents still on their way
+  getDeadFrontierAgents(): FrontierAgentMirror[]; // Frontier agents that died since the last call
+  getPoolStats(): AgentPoolStats; // Slot usage and spawn rejections, for the performance panel
+  /**
+   * Refreshes the Frontier mirrors and detects arrivals. continueJourney may hand an arriving agent
+   * its next leg; without one the agent dies on arrival.
+   */
+  updateFrontierMirrors(
+    clusterCentroids: Map<number, ClusterInfo>,
+    continueJourney?: (mirror: FrontierAgentMirror) => FrontierJourneyLeg | null
+  ): void;
+  reset(): void;
+}
+
+const GRACE_PERIOD_SECONDS = 5 / 60; // Freshly spawned agents cannot arrive yet, five steps
+const CENTROID_ARRIVAL_RADIUS = 30.0;
+const PROJECT_ARRIVAL_RADIUS = 12.0; // A project is a single particle, so the agent has to get close to it
+
+/**
+ * Whether a Frontier agent is close enough to its target to count as arrived. Shared by every backend.
+ */
+export function hasReachedTarget(mirror: FrontierAgentMirror): boolean {
+  const distToTarget = Math.hypot(mirror.x - mirror.targetX, mirror.y - mirror.targetY);
+  const arrivalRadius = mirror.targetProjectId ? PROJECT_ARRIVAL_RADIUS : CENTROID_ARRIVAL_RADIUS;
+  return distToTarget < arrivalRadius && mirror.age > GRACE_PERIOD_SECONDS;
+}
+
+/**
+ * The CPU mirror of a newly spawned Frontier agent.
+ */
+export function createFrontierMirror(agentIndex: number, data: AgentSpawnData): FrontierAgentMirror {
+  return {
+    id: agentIndex, x: data.x, y: data.y, vx: data.vx, vy: data.vy,
+    age: data.age, maxAge: data.maxAge,
+    sourceClusterId: data.sourceClusterId!, targetClusterId: data.targetClusterId!,
+    directive_verb: data.directive_verb!, directive_noun: data.directive_noun!,
+    projectTitle: data.projectTitle!,
+    sourceClusterName: data.sourceClusterName!,
+    sourceClusterColor: data.sourceClusterColor!,
+    score: data.score,
+    itinerary: [
+      { clusterId: data.sourceClusterId!, name: data.sourceClusterName! },
+      { clusterId: data.targetClusterId!, name: data.targetClusterName! }
+    ],
+    isActive: true,
+    targetX: data.targetClusterX,
+    targetY: data.targetClusterY,
+    targetProjectId: data.targetProjectId
+  };
+}
+
+/**
+ * Points a Frontier mirror at the next leg of its journey.
+ */
+export function applyJourneyLeg(mirror: FrontierAgentMirror, leg: FrontierJourneyLeg): void {
+  mirror.age = 0;
+  mirror.maxAge = leg.maxAge;
+  mirror.targetClusterId = leg.targetClusterId;
+  mirror.targetX = leg.targetX;
+  mirror.targetY = leg.targetY;
+  mirror.targetProjectId = leg.targetProjectId;
+  mirror.directive_noun = leg.directive_noun;
+  mirror.score = leg.score;
+  mirror.itinerary.push({ clusterId: leg.targetClusterId, name: leg.targetClusterName });
+}
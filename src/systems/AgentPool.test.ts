@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { AgentSpawnData } from '../data/interfaces';
+import { AgentPool, AgentPoolError } from './AgentPool';
+
+function spawnData(overrides: Partial<AgentSpawnData> = {}): AgentSpawnData {
+  return {
+    x: 100, y: 100, vx: 1, vy: 0,
+    targetClusterX: 400, targetClusterY: 300,
+    age: 0, maxAge: 100, spawnYear: 2000,
+    isFrontier: false, species: 'ecosystem',
+    brightness: 0.6, bridgeStrength: 0.5, clusterHue: 0,
+    ...overrides
+  };
+}
+
+function frontierData(noun: string): AgentSpawnData {
+  return spawnData({
+    isFrontier: true, species: 'frontier',
+    sourceClusterId: 1, targetClusterId: 2,
+    sourceClusterName: 'Source', targetClusterName: 'Target', sourceClusterColor: '#000000',
+    directive_verb: 'seeking', directive_noun: noun, projectTitle: 'Project'
+  });
+}
+
+// One step of a random pool workout
+type PoolOperation =
+  | { kind: 'acquire'; frontier: boolean; valid: boolean }
+  | { kind: 'release'; pick: number }
+  | { kind: 'double-free'; pick: number }
+  | { kind: 'reset' };
+
+const operation: fc.Arbitrary<PoolOperation> = fc.oneof(
+  { weight: 5, arbitrary: fc.record({ kind: fc.constant('acquire' as const), frontier: fc.boolean(), valid: fc.boolean() }) },
+  { weight: 4, arbitrary: fc.record({ kind: fc.constant('release' as const), pick: fc.nat() }) },
+  { weight: 1, arbitrary: fc.record({ kind: fc.constant('double-free' as const), pick: fc.nat() }) },
+  { weight: 1, arbitrary: fc.constant({ kind: 'reset' as const }) }
+);
+
+describe('AgentPool', () => {
+  it('keeps its invariants through any sequence of operations', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 24 }), fc.array(operation, { maxLength: 200 }), (capacity, operations) => {
+      const pool = new AgentPool(capacity);
+      const active = new Set<number>(); // Model of the active slots
+      const freed: number[] = [];
+
+      for (const op of operations) {
+        switch (op.kind) {
+          case 'acquire': {
+            const data = op.frontier ? frontierData('noun') : spawnData();
+            if (!op.valid) data.maxAge = 0.5;
+            const result = pool.acquire(data);
+
+            if (active.size === capacity) {
+              expect(result).toEqual({ ok: false, reason: 'pool-full' });
+            } else if (!op.valid) {
+              expect(result).toEqual({ ok: false, reason: 'invalid-lifespan' });
+            } else {
+              expect(result.ok).toBe(true);
+              if (result.ok) {
+                expect(active.has(result.index)).toBe(false);
+                expect(result.index).toBeGreaterThanOrEqual(0);
+                expect(result.index).toBeLessThan(capacity);
+                active.add(result.index);
+              }
+            }
+            break;
+          }
+          case 'release': {
+            if (active.size === 0) break;
+            const index = [...active][op.pick % active.size];
+            pool.release(index);
+            active.delete(index);
+            freed.push(index);
+            break;
+          }
+          case 'double-free': {
+            if (freed.length === 0) break;
+            const index = freed[op.pick % freed.length];
+            if (active.has(index)) break; // Acquired again since, so releasing it would be legal
+            expect(() => pool.release(index)).toThrow(AgentPoolError);
+            break;
+          }
+          case 'reset':
+            pool.reset();
+            active.clear();
+            freed.length = 0;
+            break;
+        }
+
+        pool.verify();
+        const stats = pool.getStats();
+        expect(stats.active).toBe(active.size);
+        expect(stats.active + stats.free).toBe(capacity);
+        expect(stats.peakActive).toBeGreaterThanOrEqual(stats.active);
+        expect(stats.peakActive).toBeLessThanOrEqual(capacity);
+      }
+    }));
+  });
+
+  it('hands out every slot exactly once before it is full', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 64 }), capacity => {
+      const pool = new AgentPool(capacity);
+      const indices = new Set<number>();
+      for (let i = 0; i < capacity; i++) {
+        const result = pool.acquire(spawnData());
+        if (!result.ok) throw new Error(`Rejected at ${i}: ${result.reason}`);
+        indices.add(result.index);
+      }
+      expect(indices.size).toBe(capacity);
+      expect(pool.acquire(spawnData())).toEqual({ ok: false, reason: 'pool-full' });
+      expect(pool.getStats().rejected['pool-full']).toBe(1);
+    }));
+  });
+
+  it('leaks no slots when every agent is released in any order', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 48 }).chain(capacity =>
+      fc.tuple(fc.constant(capacity), fc.shuffledSubarray([...Array(capacity).keys()], { minLength: capacity }))
+    ), ([capacity, order]) => {
+      const pool = new AgentPool(capacity);
+      const indices: number[] = [];
+      for (let i = 0; i < capacity; i++) {
+        const result = pool.acquire(spawnData());
+        if (result.ok) indices.push(result.index);
+      }
+      for (const position of order) pool.release(indices[position]);
+
+      pool.verify();
+      expect(pool.freeCount).toBe(capacity);
+      expect(pool.activeCount).toBe(0);
+      const stats = pool.getStats();
+      expect(stats.acquired).toBe(capacity);
+      expect(stats.released).toBe(capacity);
+    }));
+  });
+
+  it('retires each Frontier mirror exactly once, with its slot', () => {
+    fc.assert(fc.property(fc.array(fc.boolean(), { minLength: 1, maxLength: 32 }), frontierFlags => {
+      const pool = new AgentPool(frontierFlags.length);
+      const indices = frontierFlags.map((isFrontier, i) => {
+        const result = pool.acquire(isFrontier ? frontierData(`noun ${i}`) : spawnData());
+        if (!result.ok) throw new Error(result.reason);
+        return result.index;
+      });
+      const frontierCount = frontierFlags.filter(Boolean).length;
+      expect(Array.from(pool.mirrors())).toHaveLength(frontierCount);
+      expect(pool.getStats().frontier).toBe(frontierCount);
+      expect(pool.getStats().bySpecies).toEqual({ ecosystem: frontierFlags.length - frontierCount, frontier: frontierCount, wanderer: 0, scout: 0 });
+
+      indices.forEach(index => pool.release(index));
+      const dead = pool.takeDeadFrontierAgents();
+      expect(dead).toHaveLength(frontierCount);
+      expect(new Set(dead.map(mirror => mirror.id)).size).toBe(frontierCount);
+      expect(pool.takeDeadFrontierAgents()).toHaveLength(0);
+      expect(Array.from(pool.mirrors())).toHaveLength(0);
+    }));
+  });
+
+  it('rejects agents that would hold a slot forever without taking one', () => {
+    const pool = new AgentPool(4);
+    expect(pool.acquire(spawnData({ maxAge: 0 }))).toEqual({ ok: false, reason: 'invalid-lifespan' });
+    expect(pool.acquire(spawnData({ maxAge: NaN }))).toEqual({ ok: false, reason: 'invalid-lifespan' });
+    expect(pool.acquire(spawnData({ x: NaN }))).toEqual({ ok: false, reason: 'invalid-position' });
+    expect(pool.acquire(spawnData({ targetClusterY: Infinity }))).toEqual({ ok: false, reason: 'invalid-position' });
+
+    expect(pool.freeCount).toBe(4);
+    expect(pool.getStats().rejected).toEqual({ 'pool-full': 0, 'invalid-lifespan': 2, 'invalid-position': 2 });
+  });
+
+  it('refuses to release slots out of range or already free', () => {
+    const pool = new AgentPool(2);
+    expect(() => pool.release(-1)).toThrow(/out of range/);
+    expect(() => pool.release(2)).toThrow(/out of range/);
+    expect(() => pool.release(0)).toThrow(/already free/);
+
+    const result = pool.acquire(spawnData());
+    if (!result.ok) throw new Error(result.reason);
+    pool.release(result.index);
+    expect(() => pool.release(result.index)).toThrow(AgentPoolError);
+    pool.verify();
+  });
+
+  it('keeps the bookkeeping of each slot', () => {
+    const pool = new AgentPool(2);
+    const result = pool.acquire(spawnData({ maxAge: 150, spawnYear: 2010, brightness: 0.9 }));
+    if (!result.ok) throw new Error(result.reason);
+
+    expect(pool.get(result.index)).toEqual({ age: 0, maxAge: 150, spawnYear: 2010, brightness: 0.9, species: 'ecosystem' });
+    expect(pool.release(result.index).maxAge).toBe(150);
+    expect(pool.get(result.index)).toBeUndefined();
+  });
+
+  it('starts over on reset', () => {
+    const pool = new AgentPool(3);
+    pool.acquire(frontierData('noun'));
+    pool.acquire(spawnData({ maxAge: 0 }));
+    pool.reset();
+
+    pool.verify();
+    expect(pool.getStats()).toEqual({
+      capacity: 3, active: 0, free: 3, frontier: 0, peakActive: 0, acquired: 0, released: 0,
+      bySpecies: { ecosystem: 0, frontier: 0, wanderer: 0, scout: 0 },
+      rejected: { 'pool-full': 0, 'invalid-lifespan': 0, 'invalid-position': 0 }
+    });
+    expect(pool.takeDeadFrontierAgents()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,261 @@
+import type { AgentSpawnData, FrontierAgentMirror } from '../data/interfaces';
+import { createFrontierMirror } from './AgentBackend';
+import { AGENT_SPECIES } from '../config/species';
+import type { AgentSpeciesId } from '../config/species';
+
+// Slot allocator shared by the agent backends. A slot is one texel of the agent textures (or one
+// entry of the CPU arrays); the pool decides which slots are taken and keeps each slot's CPU-side
+// bookkeeping and Frontier mirror together, so releasing a slot always retires its mirror too.
+//
+// Invariants, checked by verify():
+// - every slot is either free or active, never both and never neither
+// - a slot is released at most once per acquire (releasing a free slot throws)
+// - Frontier mirrors exist only for active slots
+
+export const SPAWN_REJECTIONS = ['pool-full', 'invalid-lifespan', 'invalid-position'] as const;
+export type SpawnRejection = typeof SPAWN_REJECTIONS[number];
+
+// CPU-side state of an active agent; position and velocity live in the backend
+export interface AgentSlot {
+  age: number;
+  maxAge: number;
+  spawnYear: number; // Year of the current leg, for the active window check
+  brightness: number;
+  species: AgentSpeciesId;
+}
+
+export type AcquireResult =
+  | { ok: true; index: number }
+  | { ok: false; reason: SpawnRejection };
+
+export interface AgentPoolStats {
+  capacity: number;
+  active: number;
+  free: number;
+  frontier: number; // Active slots with a Frontier mirror still on its way
+  bySpecies: Record<AgentSpeciesId, number>; // Active slots per species
+  peakActive: number; // Highest active count since the last reset
+  acquired: number; // Since the last reset
+  released: number;
+  rejected: Record<SpawnRejection, number>;
+}
+
+export class AgentPoolError extends Error {
+  public readonly index: number;
+
+  constructor(message: string, index: number) {
+    super(message);
+    this.name = 'AgentPoolError';
+    this.index = index;
+  }
+}
+
+export class AgentPool {
+  public readonly capacity: number;
+
+  private freeSlots: number[] = []; // Used as a stack, the last freed slot is reused first
+  private isFree: Uint8Array;
+  private activeSlots: Map<number, AgentSlot> = new Map();
+  private frontierMirrors: Map<number, FrontierAgentMirror> = new Map();
+  private deadFrontierAgents: FrontierAgentMirror[] = [];
+
+  private peakActive: number = 0;
+  private acquired: number = 0;
+  private released: number = 0;
+  private rejected: Record<SpawnRejection, number> = AgentPool.noRejections();
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new AgentPoolError(`Agent pool capacity must be a non-negative integer, got ${capacity}`, -1);
+    }
+    this.capacity = capacity;
+    this.isFree = new Uint8Array(capacity);
+    this.reset();
+  }
+
+  /**
+   * Takes a free slot for a new agent, creating its Frontier mirror if it is one.
+   * Agents the shaders would treat as empty slots (maxAge below 1) or that have no position are rejected,
+   * since they would hold a slot nothing ever frees.
+   */
+  public acquire(data: AgentSpawnData): AcquireResult {
+    const reason = this.validate(data);
+    if (reason) {
+      this.rejected[reason]++;
+      return { ok: false, reason };
+    }
+
+    const index = this.freeSlots.pop()!;
+    this.isFree[index] = 0;
+    this.activeSlots.set(index, {
+      age: data.age,
+      maxAge: data.maxAge,
+      spawnYear: data.spawnYear,
+      brightness: data.brightness,
+      species: data.species
+    });
+    if (data.isFrontier) {
+      this.frontierMirrors.set(index, createFrontierMirror(index, data));
+    }
+
+    this.acquired++;
+    this.peakActive = Math.max(this.peakActive, this.activeSlots.size);
+    return { ok: true, index };
+  }
+
+  /**
+   * Returns a slot to the pool. Its Frontier mirror, if any, moves to the dead list.
+   * Throws AgentPoolError for slots that are out of range or already free.
+   */
+  public release(index: number): AgentSlot {
+    const slot = this.activeSlots.get(index);
+    if (!slot) {
+      const problem = this.isInRange(index) ? 'is already free' : 'is out of range';
+      throw new AgentPoolError(`Agent slot ${index} ${problem}`, index);
+    }
+
+    this.activeSlots.delete(index);
+    this.isFree[index] = 1;
+    this.freeSlots.push(index);
+
+    const mirror = this.frontierMirrors.get(index);
+    if (mirror) {
+      this.frontierMirrors.delete(index);
+      this.deadFrontierAgents.push(mirror);
+    }
+
+    this.released++;
+    return slot;
+  }
+
+  public get(index: number): AgentSlot | undefined {
+    return this.activeSlots.get(index);
+  }
+
+  public getMirror(index: number): FrontierAgentMirror | undefined {
+    return this.frontierMirrors.get(index);
+  }
+
+  // Active slots with their bookkeeping, in acquisition order
+  public entries(): IterableIterator<[number, AgentSlot]> {
+    return this.activeSlots.entries();
+  }
+
+  public indices(): IterableIterator<number> {
+    return this.activeSlots.keys();
+  }
+
+  // Every Frontier mirror of an active slot, including those flagged inactive on arrival
+  public mirrors(): IterableIterator<FrontierAgentMirror> {
+    return this.frontierMirrors.values();
+  }
+
+  public get activeCount(): number {
+    return this.activeSlots.size;
+  }
+
+  public get freeCount(): number {
+    return this.freeSlots.length;
+  }
+
+  /**
+   * Frontier mirrors of released slots since the last call.
+   */
+  public takeDeadFrontierAgents(): FrontierAgentMirror[] {
+    const deadAgents = this.deadFrontierAgents;
+    this.deadFrontierAgents = [];
+    return deadAgents;
+  }
+
+  public getStats(): AgentPoolStats {
+    let frontier = 0;
+    for (const mirror of this.frontierMirrors.values()) {
+      if (mirror.isActive) frontier++;
+    }
+    const bySpecies = Object.fromEntries(AGENT_SPECIES.map(species => [species, 0])) as Record<AgentSpeciesId, number>;
+    for (const slot of this.activeSlots.values()) {
+      bySpecies[slot.species]++;
+    }
+    return {
+      capacity: this.capacity,
+      active: this.activeSlots.size,
+      free: this.freeSlots.length,
+      frontier,
+      bySpecies,
+      peakActive: this.peakActive,
+      acquired: this.acquired,
+      released: this.released,
+      rejected: { ...this.rejected }
+    };
+  }
+
+  /**
+   * Frees every slot and clears the statistics, for a new cycle.
+   */
+  public reset(): void {
+    this.activeSlots.clear();
+    this.frontierMirrors.clear();
+    this.deadFrontierAgents = [];
+
+    // Pushed in order, so the highest slot is handed out first
+    this.freeSlots = [];
+    for (let i = 0; i < this.capacity; i++) {
+      this.freeSlots.push(i);
+    }
+    this.isFree.fill(1);
+
+    this.peakActive = 0;
+    this.acquired = 0;
+    this.released = 0;
+    this.rejected = AgentPool.noRejections();
+  }
+
+  /**
+   * Checks the pool invariants and throws AgentPoolError on the first broken one.
+   */
+  public verify(): void {
+    if (this.freeSlots.length + this.activeSlots.size !== this.capacity) {
+      throw new AgentPoolError(
+        `Agent pool leaked slots: ${this.freeSlots.length} free + ${this.activeSlots.size} active != ${this.capacity}`, -1
+      );
+    }
+
+    const seen = new Set<number>();
+    for (const index of this.freeSlots) {
+      if (!this.isInRange(index) || seen.has(index) || this.activeSlots.has(index) || !this.isFree[index]) {
+        throw new AgentPoolError(`Agent slot ${index} is listed as free more than once or while active`, index);
+      }
+      seen.add(index);
+    }
+    for (const index of this.activeSlots.keys()) {
+      if (!this.isInRange(index) || this.isFree[index]) {
+        throw new AgentPoolError(`Active agent slot ${index} is marked free`, index);
+      }
+    }
+    for (const [index, mirror] of this.frontierMirrors) {
+      if (!this.activeSlots.has(index) || mirror.id !== index) {
+        throw new AgentPoolError(`Frontier mirror ${mirror.id} has no active slot`, index);
+      }
+    }
+    if (this.acquired - this.released !== this.activeSlots.size) {
+      throw new AgentPoolError(`Agent pool counted ${this.acquired} acquired and ${this.released} released for ${this.activeSlots.size} active`, -1);
+    }
+  }
+
+  private validate(data: AgentSpawnData): SpawnRejection | null {
+    if (this.freeSlots.length === 0) return 'pool-full';
+    if (!(data.maxAge >= 1.0)) return 'invalid-lifespan'; // The shaders treat maxAge < 1 as an empty slot
+    if (![data.x, data.y, data.vx, data.vy, data.targetClusterX, data.targetClusterY].every(Number.isFinite)) {
+      return 'invalid-position';
+    }
+    return null;
+  }
+
+  private isInRange(index: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < this.capacity;
+  }
+
+  private static noRejections(): Record<SpawnRejection, number> {
+    return { 'pool-full': 0, 'invalid-lifespan': 0, 'invalid-position': 0 };
+  }
+}
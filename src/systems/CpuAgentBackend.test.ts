@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { AgentSpawnData } from '../data/interfaces';
+import { DEFAULT_CONFIG } from '../config/SimulationConfig';
+import { CpuAgentBackend } from './CpuAgentBackend';
+
+const STEP_SECONDS = 1 / 60;
+
+function frontierAgent(x: number, y: number, targetX: number, targetY: number): AgentSpawnData {
+  return {
+    x, y, vx: 0, vy: 0,
+    targetClusterX: targetX, targetClusterY: targetY,
+    age: 0, maxAge: 30, spawnYear: 2010,
+    isFrontier: true, species: 'frontier', brightness: 1, bridgeStrength: 0.5, clusterHue: 0,
+    sourceClusterId: 0, targetClusterId: 1,
+    directive_verb: 'seeking', directive_noun: 'social engines', projectTitle: 'Project 1',
+    sourceClusterName: 'Zero', sourceClusterColor: '#ffffff', targetClusterName: 'One'
+  };
+}
+
+describe('CpuAgentBackend arrivals', () => {
+  function stepUntilArrival(agents: CpuAgentBackend, maxSteps: number): number | null {
+    for (let step = 1; step <= maxSteps; step++) {
+      agents.update(2010.5, STEP_SECONDS);
+      agents.updateFrontierMirrors(new Map());
+      if (agents.frontierArrivals.length > 0) return step;
+    }
+    return null;
+  }
+
+  it('lets an agent spawned next to its target arrive within a few steps', () => {
+    const agents = new CpuAgentBackend(1000, 800, DEFAULT_CONFIG, { trailCellSize: 0 });
+    agents.spawnAgents([frontierAgent(500, 400, 510, 400)]);
+
+    const step = stepUntilArrival(agents, 10);
+    expect(step).not.toBeNull();
+    expect(step!).toBeGreaterThanOrEqual(5); // Not before the grace period is over
+    expect(agents.getFrontierAgentMirrors()).toEqual([]);
+  });
+});
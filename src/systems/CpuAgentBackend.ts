@@ -0,0 +1,383 @@
+import type { AgentSpawnData, ClusterInfo, FrontierAgentMirror, FrontierJourneyLeg } from '../data/interfaces';
+import type { SimulationConfig } from '../config/SimulationConfig';
+import { AGENT_SPECIES, SPECIES_TABLE, getSpeciesIndex } from '../config/species';
+import type { AgentBackend } from './AgentBackend';
+import { applyJourneyLeg, hasReachedTarget } from './AgentBackend';
+import { AgentPool } from './AgentPool';
+import type { AgentPoolStats } from './AgentPool';
+
+// Agents in plain arrays, moved by the same steering, aging and arrival rules as the GPU shaders
+// (agentUpdate.frag, agentProperties.frag, trailUpdate.frag, agentDeposition.frag).
+// Needs no WebGL, so the whole timeline can run headless in Node for tests and batch analysis.
+
+export interface CpuAgentBackendOptions {
+  trailCellSize?: number; // Pixels per trail grid cell, coarser is faster; 0 turns trails off (agents only seek their targets)
+}
+
+// The GLSL hash used by the agent shaders, so both backends wander the same way
+function shaderRandom(x: number, y: number): number {
+  const value = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453123;
+  return value - Math.floor(value);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min((x - edge0) / (edge1 - edge0), 1));
+  return t * t * (3 - 2 * t);
+}
+
+export class CpuAgentBackend implements AgentBackend {
+  private width: number;
+  private height: number;
+  private config: SimulationConfig;
+
+  public frontierArrivals: { x: number, y: number }[] = [];
+
+  // Same layout as the GPU textures, four floats per agent slot
+  private state: Float32Array; // (posX, posY, velX, velY)
+  private properties: Float32Array; // (age, maxAge, species, brightness)
+  private targets: Float32Array; // (targetX, targetY, bridgeStrength, unused)
+
+  private agentTextureSize: number;
+  private maxAgents: number;
+
+  // Agent Management: slots, their bookkeeping and the Frontier mirrors
+  private pool: AgentPool;
+
+  // Trail intensity per grid cell, the CPU counterpart of the trail texture
+  private readonly trailCellSize: number;
+  private trailColumns: number = 0;
+  private trailRows: number = 0;
+  private trail: Float32Array = new Float32Array(0);
+  private trailScratch: Float32Array = new Float32Array(0);
+
+  private readonly TRAIL_RADIUS = 15; // Matches the deposition shader
+
+  constructor(width: number, height: number, config: SimulationConfig, options: CpuAgentBackendOptions = {}) {
+    this.width = width;
+    this.height = height;
+    this.config = config;
+    this.trailCellSize = options.trailCellSize ?? 8;
+
+    // The pool size is fixed for the lifetime of the arrays, like the GPU textures
+    this.agentTextureSize = Math.ceil(Math.sqrt(config.spawning.agentPoolSize));
+    this.maxAgents = this.agentTextureSize * this.agentTextureSize;
+    this.state = new Float32Array(this.maxAgents * 4);
+    this.properties = new Float32Array(this.maxAgents * 4);
+    this.targets = new Float32Array(this.maxAgents * 4);
+
+    this.pool = new AgentPool(this.maxAgents);
+    this.resizeTrail();
+  }
+
+  public spawnAgents(agentData: AgentSpawnData[]): AgentSpawnData[] {
+    const accepted: AgentSpawnData[] = [];
+    for (const data of agentData) {
+      const slot = this.pool.acquire(data);
+      if (!slot.ok) {
+        console.warn(`Agent not spawned: ${slot.reason}`);
+        if (slot.reason === 'pool-full') break; // Stop trying to spawn if pool is empty
+        continue;
+      }
+
+      const offset = slot.index * 4;
+      this.state.set([data.x, data.y, data.vx, data.vy], offset);
+      this.properties.set([data.age, data.maxAge, getSpeciesIndex(data.species), data.brightness], offset);
+      this.targets.set([data.targetClusterX, data.targetClusterY, data.bridgeStrength, 0.0], offset);
+      accepted.push(data);
+    }
+    return accepted;
+  }
+
+  /**
+   * Advances every agent and the trails by one fixed simulation step.
+   */
+  public update(currentYear: number, stepSeconds: number): void {
+    const activeWindowYears = this.config.timeline.activeWindowYears;
+    const deadAgentIndices: number[] = [];
+
+    for (const [index, agent] of this.pool.entries()) {
+      agent.age += stepSeconds;
+
+      const mirror = this.pool.getMirror(index);
+      if (mirror) mirror.age = agent.age;
+      const hasArrived = mirror ? !mirror.isActive : false;
+      const hasExceededWindow = Math.abs(currentYear - agent.spawnYear) > activeWindowYears;
+
+      // Agent dies if it's too old OR its era has passed OR it has arrived
+      if (agent.age > agent.maxAge || hasExceededWindow || hasArrived) {
+        deadAgentIndices.push(index);
+      }
+    }
+    for (const index of deadAgentIndices) {
+      this.clearSlot(index);
+      this.pool.release(index); // Frontier mirrors move to the dead list with their slot
+    }
+
+    for (const index of this.pool.indices()) {
+      this.steerAgent(index);
+      this.ageAgent(index, stepSeconds);
+    }
+
+    if (this.trailCellSize > 0) {
+      this.decayTrails();
+      this.depositTrails();
+    }
+  }
+
+  public updateFrontierMirrors(
+    _clusterCentroids: Map<number, ClusterInfo>, // Arrivals only need the mirror's own target
+    continueJourney?: (mirror: FrontierAgentMirror) => FrontierJourneyLeg | null
+  ): void {
+    this.frontierArrivals = [];
+
+    for (const mirror of this.pool.mirrors()) {
+      if (!mirror.isActive) continue;
+
+      const offset = mirror.id * 4;
+      mirror.x = this.state[offset];
+      mirror.y = this.state[offset + 1];
+      mirror.vx = this.state[offset + 2];
+      mirror.vy = this.state[offset + 3];
+      mirror.age = this.properties[offset];
+
+      if (hasReachedTarget(mirror)) {
+        this.frontierArrivals.push({ x: mirror.targetX, y: mirror.targetY });
+
+        const leg = continueJourney?.(mirror) ?? null;
+        if (leg) {
+          this.startJourneyLeg(mirror, leg);
+        } else {
+          mirror.isActive = false; // Flag it for deletion.
+        }
+      }
+    }
+  }
+
+  public getActiveAgentCount(): number {
+    return this.pool.activeCount;
+  }
+
+  public getMaxAgents(): number {
+    return this.maxAgents;
+  }
+
+  public getFrontierAgentMirrors(): FrontierAgentMirror[] {
+    return Array.from(this.pool.mirrors()).filter(mirror => mirror.isActive);
+  }
+
+  public getDeadFrontierAgents(): FrontierAgentMirror[] {
+    return this.pool.takeDeadFrontierAgents();
+  }
+
+  public getPoolStats(): AgentPoolStats {
+    return this.pool.getStats();
+  }
+
+  /**
+   * Position and velocity of every live agent, for tests and analysis.
+   */
+  public getAgentPositions(): Array<{ index: number; x: number; y: number; vx: number; vy: number }> {
+    return Array.from(this.pool.indices(), index => {
+      const offset = index * 4;
+      return { index, x: this.state[offset], y: this.state[offset + 1], vx: this.state[offset + 2], vy: this.state[offset + 3] };
+    });
+  }
+
+  /**
+   * Trail intensity at a canvas position, 0 outside the canvas or with trails off.
+   */
+  public sampleTrail(x: number, y: number): number {
+    if (this.trailCellSize <= 0 || x < 0 || y < 0 || x > this.width || y > this.height) return 0;
+    const column = Math.min(Math.floor(x / this.trailCellSize), this.trailColumns - 1);
+    const row = Math.min(Math.floor(y / this.trailCellSize), this.trailRows - 1);
+    return this.trail[row * this.trailColumns + column];
+  }
+
+  public resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.resizeTrail();
+  }
+
+  public reset(): void {
+    this.pool.reset();
+    this.frontierArrivals = [];
+
+    this.state.fill(0);
+    this.properties.fill(0);
+    this.targets.fill(0);
+    this.trail.fill(0);
+  }
+
+  // Sends an arrived Frontier agent on towards its next target with a fresh lifespan
+  private startJourneyLeg(mirror: FrontierAgentMirror, leg: FrontierJourneyLeg): void {
+    const agent = this.pool.get(mirror.id);
+    if (!agent) return;
+
+    agent.age = 0;
+    agent.maxAge = leg.maxAge;
+    agent.spawnYear = leg.startYear;
+    applyJourneyLeg(mirror, leg);
+
+    const offset = mirror.id * 4;
+    this.properties.set([0.0, leg.maxAge, getSpeciesIndex('frontier'), agent.brightness], offset);
+    this.targets.set([leg.targetX, leg.targetY, leg.bridgeStrength, 0.0], offset);
+  }
+
+  private clearSlot(index: number): void {
+    const offset = index * 4;
+    this.state.fill(0, offset, offset + 4);
+    this.properties.fill(0, offset, offset + 4);
+    this.targets.fill(0, offset, offset + 4);
+  }
+
+  // Port of agentUpdate.frag
+  private steerAgent(index: number): void {
+    const offset = index * 4;
+    const x = this.state[offset];
+    const y = this.state[offset + 1];
+    const vx = this.state[offset + 2];
+    const vy = this.state[offset + 3];
+    if (this.properties[offset + 1] < 1.0) return; // Dead slot
+
+    const steering = this.config.steering;
+    const species = SPECIES_TABLE[AGENT_SPECIES[this.properties[offset + 2]] ?? 'ecosystem'];
+    const sensorDistance = steering.sensorDistance * species.sensorDistance;
+    const sensorAngle = steering.sensorAngleDegrees * Math.PI / 180 * species.sensorAngle;
+    const turnStrength = steering.turnStrength * species.turnStrength;
+    const agentSpeed = steering.speed * species.speed;
+
+    // The texel coordinate the shader would run at, for its hash
+    const texX = (index % this.agentTextureSize + 0.5) / this.agentTextureSize;
+    const texY = (Math.floor(index / this.agentTextureSize) + 0.5) / this.agentTextureSize;
+
+    // Force A: Trail-Following (Physarum Logic)
+    const currentAngle = Math.atan2(vy, vx);
+    const sense = (angle: number) =>
+      this.sampleTrail(x + Math.cos(angle) * sensorDistance, y + Math.sin(angle) * sensorDistance);
+    const leftStrength = sense(currentAngle - sensorAngle);
+    const forwardStrength = sense(currentAngle);
+    const rightStrength = sense(currentAngle + sensorAngle);
+
+    let trailAngle = currentAngle;
+    if (forwardStrength > leftStrength && forwardStrength > rightStrength) {
+      // No change, continue forward
+    } else if (leftStrength > rightStrength) {
+      trailAngle -= turnStrength;
+    } else if (rightStrength > leftStrength) {
+      trailAngle += turnStrength;
+    } else {
+      trailAngle += (shaderRandom(texX + x, texY + y) - 0.5) * turnStrength * 2.0;
+    }
+
+    // Force B: Target-Seeking Behavior
+    const toTargetX = this.targets[offset] - x;
+    const toTargetY = this.targets[offset + 1] - y;
+    const distanceToTarget = Math.hypot(toTargetX, toTargetY);
+    const targetWeight = Math.min(1.0, distanceToTarget / 100.0 * species.targetPull);
+    const trailWeight = 1.0 - targetWeight;
+
+    let directionX = Math.cos(trailAngle) * trailWeight;
+    let directionY = Math.sin(trailAngle) * trailWeight;
+    if (distanceToTarget > 0.1) {
+      directionX += toTargetX / distanceToTarget * targetWeight;
+      directionY += toTargetY / distanceToTarget * targetWeight;
+    }
+    const directionLength = Math.hypot(directionX, directionY) || 1;
+    directionX /= directionLength;
+    directionY /= directionLength;
+
+    // Similarity: strong bridges travel faster and straighter, weak ones wander
+    const bridgeStrength = this.targets[offset + 2];
+    const wander = steering.similarityInfluence * (1.0 - bridgeStrength) * 0.6;
+    const wanderAngle = (shaderRandom(texX * 7.0 + x, texY * 7.0 + y) - 0.5) * wander;
+    const cos = Math.cos(wanderAngle);
+    const sin = Math.sin(wanderAngle);
+    const speedFactor = Math.max(0.1, 1.0 + steering.similarityInfluence * (bridgeStrength - 0.5) * 0.6);
+    const speed = agentSpeed * speedFactor;
+
+    const newVx = (directionX * cos - directionY * sin) * speed;
+    const newVy = (directionX * sin + directionY * cos) * speed;
+    let newX = x + newVx * steering.deltaTime;
+    let newY = y + newVy * steering.deltaTime;
+
+    // Boundary conditions (wrap around screen)
+    if (newX < 0.0) newX = this.width;
+    if (newX > this.width) newX = 0.0;
+    if (newY < 0.0) newY = this.height;
+    if (newY > this.height) newY = 0.0;
+
+    this.state.set([newX, newY, newVx, newVy], offset);
+  }
+
+  // Port of agentProperties.frag
+  private ageAgent(index: number, stepSeconds: number): void {
+    const offset = index * 4;
+    const newAge = this.properties[offset] + stepSeconds;
+    if (newAge > this.properties[offset + 1]) {
+      this.properties.fill(0, offset, offset + 4);
+      return;
+    }
+    this.properties[offset] = newAge;
+  }
+
+  // Port of trailUpdate.frag: light diffusion, then decay
+  private decayTrails(): void {
+    const columns = this.trailColumns;
+    const rows = this.trailRows;
+    const trail = this.trail;
+    const cell = (column: number, row: number) =>
+      trail[Math.max(0, Math.min(row, rows - 1)) * columns + Math.max(0, Math.min(column, columns - 1))];
+    const decayFactor = this.config.trails.decayFactor;
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const center = trail[row * columns + column];
+        const cross = cell(column + 1, row) + cell(column - 1, row) + cell(column, row + 1) + cell(column, row - 1);
+        const diagonals = cell(column + 1, row + 1) + cell(column - 1, row - 1) + cell(column + 1, row - 1) + cell(column - 1, row + 1);
+        const blurred = (center * 4.0 + cross + diagonals * 0.5) / 10.0;
+        const diffused = center + (blurred - center) * 0.55;
+        this.trailScratch[row * columns + column] = diffused * decayFactor;
+      }
+    }
+    [this.trail, this.trailScratch] = [this.trailScratch, this.trail];
+  }
+
+  // Port of agentDeposition.frag, stamping each agent onto the cells around it
+  private depositTrails(): void {
+    const size = this.trailCellSize;
+    const reach = Math.ceil(this.TRAIL_RADIUS / size);
+    const { strength } = this.config.trails;
+    const influence = this.config.steering.similarityInfluence;
+
+    for (const index of this.pool.indices()) {
+      const offset = index * 4;
+      const x = this.state[offset];
+      const y = this.state[offset + 1];
+      if (Math.hypot(x, y) < 1.0) continue;
+
+      const species = SPECIES_TABLE[AGENT_SPECIES[this.properties[offset + 2]] ?? 'ecosystem'];
+      const strengthFactor = Math.max(0, 1.0 + influence * (this.targets[offset + 2] - 0.5));
+      const deposit = strength * strengthFactor * species.trailWeight;
+
+      const agentColumn = Math.floor(x / size);
+      const agentRow = Math.floor(y / size);
+      for (let row = agentRow - reach; row <= agentRow + reach; row++) {
+        if (row < 0 || row >= this.trailRows) continue;
+        for (let column = agentColumn - reach; column <= agentColumn + reach; column++) {
+          if (column < 0 || column >= this.trailColumns) continue;
+          const dist = Math.hypot((column + 0.5) * size - x, (row + 0.5) * size - y);
+          this.trail[row * this.trailColumns + column] += smoothstep(this.TRAIL_RADIUS, 1, dist) * deposit;
+        }
+      }
+    }
+  }
+
+  private resizeTrail(): void {
+    if (this.trailCellSize <= 0) return;
+    this.trailColumns = Math.max(1, Math.ceil(this.width / this.trailCellSize));
+    this.trailRows = Math.max(1, Math.ceil(this.height / this.trailCellSize));
+    this.trail = new Float32Array(this.trailColumns * this.trailRows);
+    this.trailScratch = new Float32Array(this.trailColumns * this.trailRows);
+  }
+}
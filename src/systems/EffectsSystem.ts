@@ -1,5 +1,7 @@
 // --- systems/EffectsSystem.ts ---
 
+import type { SimulationConfig } from '../config/SimulationConfig';
+
 interface Ping {
   x: number;
   y: number;
@@ -10,8 +12,11 @@ interface Ping {
 
 export class EffectsSystem {
   private pings: Ping[] = [];
-  private readonly PING_LIFESPAN = 30; // 30 frames = 0.5 seconds
-  private readonly PING_MAX_RADIUS = 50; // pixels
+  private config: SimulationConfig;
+
+  constructor(config: SimulationConfig) {
+    this.config = config;
+  }
 
   // Called when a Frontier agent arrives
   public createPing(x: number, y: number): void {
@@ -19,19 +24,24 @@ export class EffectsSystem {
       x: x,
       y: y,
       age: 0,
-      maxAge: this.PING_LIFESPAN,
+      maxAge: this.config.effects.pingLifespan, // seconds
       radius: 0
     });
   }
 
-  public update(): void {
+  public reset(): void {
+    this.pings = [];
+  }
+
+  // Advances the pings by one simulation step
+  public update(stepSeconds: number): void {
     for (let i = this.pings.length - 1; i >= 0; i--) {
       const ping = this.pings[i];
-      ping.age++;
+      ping.age += stepSeconds;
 
       // Animate the radius and remove if dead
       const life_fraction = ping.age / ping.maxAge;
-      ping.radius = life_fraction * this.PING_MAX_RADIUS;
+      ping.radius = life_fraction * this.config.effects.pingMaxRadius;
 
       if (ping.age > ping.maxAge) {
         this.pings.splice(i, 1);
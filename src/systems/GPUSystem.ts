@@ -1,6 +1,12 @@
-import type { AgentSpawnData, FrontierAgentMirror, ClusterInfo } from '../data/interfaces';
+import type { AgentSpawnData, FrontierAgentMirror, FrontierJourneyLeg, ClusterInfo } from '../data/interfaces';
 import { Shader } from '../rendering/Shader';
 import { createFloatTexture, createFramebuffer, createScreenQuad, createBuffer } from '../rendering/utils';
+import type { SimulationConfig } from '../config/SimulationConfig';
+import { AGENT_SPECIES, SPECIES_TEXELS, getSpeciesIndex, packSpeciesTable } from '../config/species';
+import type { AgentBackend } from './AgentBackend';
+import { applyJourneyLeg, hasReachedTarget } from './AgentBackend';
+import { AgentPool } from './AgentPool';
+import type { AgentPoolStats } from './AgentPool';
 
 // Import shader sources
 import quadVertexSource from '../shaders/quad.vert?raw';
@@ -9,32 +15,29 @@ import agentPropertiesFragmentSource from '../shaders/agentProperties.frag?raw';
 import agentRenderVertexSource from '../shaders/agentRender.vert?raw';
 import agentRenderFragmentSource from '../shaders/agentRender.frag?raw';
 
-export class GPUSystem {
+export class GPUSystem implements AgentBackend {
   private gl: WebGL2RenderingContext;
   private width: number;
   private height: number;
+  private config: SimulationConfig;
 
   public frontierArrivals: { x: number, y: number }[] = [];
 
   // GPU Agent Textures (Simplified to 2 sets)
   private agentStateTextures: WebGLTexture[] = [];      // Ping-pong for (posX, posY, velX, velY)
   private agentStateFramebuffers: WebGLFramebuffer[] = [];
-  private agentPropertiesTextures: WebGLTexture[] = []; // Ping-pong for (age, maxAge, isFrontier, clusterHue)
+  private agentPropertiesTextures: WebGLTexture[] = []; // Ping-pong for (age, maxAge, species, brightness)
   private agentPropertiesFramebuffers: WebGLFramebuffer[] = [];
-  private agentTargetTextures: WebGLTexture[] = [];     // Ping-pong for (targetX, targetY, unused, unused)
+  private agentTargetTextures: WebGLTexture[] = [];     // Ping-pong for (targetX, targetY, bridgeStrength, unused)
   private agentTargetFramebuffers: WebGLFramebuffer[] = [];
+  private speciesTexture!: WebGLTexture; // One row of parameters per species, see src/config/species.ts
 
   private currentAgentSourceIndex: 0 | 1 = 0;
   private agentTextureSize: number;
   private maxAgents: number;
 
-  // Agent Pool Management
-  private availableAgentSlots: number[] = [];
-  private activeAgents: Map<number, { age: number; maxAge: number; spawnYear: number }> = new Map();
-
-  // CPU Mirror for UI
-  private frontierAgentMirrors: Map<number, FrontierAgentMirror> = new Map();
-  private deadFrontierAgents: FrontierAgentMirror[] = [];
+  // Agent Pool Management: slots, their CPU bookkeeping and the Frontier mirrors for the UI
+  private pool: AgentPool;
 
   // Shaders
   private agentUpdateShader: Shader;
@@ -58,6 +61,9 @@ export class GPUSystem {
     uSensorDistance: WebGLUniformLocation | null;
     uSensorAngle: WebGLUniformLocation | null;
     uTurnStrength: WebGLUniformLocation | null;
+    uSimilarityInfluence: WebGLUniformLocation | null;
+    uSpeciesTexture: WebGLUniformLocation | null;
+    uSpeciesCount: WebGLUniformLocation | null;
   };
 
   // Uniforms for agent properties update shader
@@ -73,14 +79,18 @@ export class GPUSystem {
     uAgentPropertiesTexture: WebGLUniformLocation | null;
     uAgentTextureSize: WebGLUniformLocation | null;
     uCanvasSize: WebGLUniformLocation | null;
+    uSpeciesTexture: WebGLUniformLocation | null;
+    uSpeciesCount: WebGLUniformLocation | null;
   };
 
-  constructor(gl: WebGL2RenderingContext, width: number, height: number, maxAgents: number = 1024) {
+  constructor(gl: WebGL2RenderingContext, width: number, height: number, config: SimulationConfig) {
     this.gl = gl;
     this.width = width;
     this.height = height;
+    this.config = config;
 
-    this.agentTextureSize = Math.ceil(Math.sqrt(maxAgents));
+    // The pool size is fixed for the lifetime of the textures
+    this.agentTextureSize = Math.ceil(Math.sqrt(config.spawning.agentPoolSize));
     this.maxAgents = this.agentTextureSize * this.agentTextureSize;
 
     this.initializeBuffers();
@@ -93,10 +103,7 @@ export class GPUSystem {
     this.screenQuadBuffer = createScreenQuad(gl);
     this.agentGridBuffer = this.createAgentGrid();
 
-    // Initialize the agent pool
-    for (let i = 0; i < this.maxAgents; i++) {
-      this.availableAgentSlots.push(i);
-    }
+    this.pool = new AgentPool(this.maxAgents);
   }
 
   private initializeBuffers(): void {
@@ -125,7 +132,7 @@ export class GPUSystem {
       const stateFramebuffer = createFramebuffer(gl, stateTexture);
       this.agentStateFramebuffers.push(stateFramebuffer);
 
-      // Create agent properties textures: (age, maxAge, isFrontier, brightness) in RGBA channels
+      // Create agent properties textures: (age, maxAge, species, brightness) in RGBA channels
       const propertiesTexture = createFloatTexture(gl, this.agentTextureSize, this.agentTextureSize);
       this.agentPropertiesTextures.push(propertiesTexture);
 
@@ -133,7 +140,7 @@ export class GPUSystem {
       const propertiesFramebuffer = createFramebuffer(gl, propertiesTexture);
       this.agentPropertiesFramebuffers.push(propertiesFramebuffer);
 
-      // Create agent target textures: (targetX, targetY, unused, unused) in RGBA channels
+      // Create agent target textures: (targetX, targetY, bridgeStrength, unused) in RGBA channels
       const targetTexture = createFloatTexture(gl, this.agentTextureSize, this.agentTextureSize);
       this.agentTargetTextures.push(targetTexture);
 
@@ -142,6 +149,9 @@ export class GPUSystem {
       this.agentTargetFramebuffers.push(targetFramebuffer);
     }
 
+    // Species parameters never change while the garden runs
+    this.speciesTexture = createFloatTexture(gl, SPECIES_TEXELS, AGENT_SPECIES.length, packSpeciesTable());
+
     // Initialize agent state textures with zeros (no agents)
     for (let i = 0; i < 2; i++) {
       gl.bindFramebuffer(gl.FRAMEBUFFER, this.agentStateFramebuffers[i]);
@@ -172,6 +182,7 @@ export class GPUSystem {
     this.agentUpdateUniforms = {
       uAgentStateTexture: this.agentUpdateShader.getUniformLocation('u_agentStateTexture'),
       uAgentPropertiesTexture: this.agentUpdateShader.getUniformLocation('u_agentPropertiesTexture'),
+      uAgentTargetTexture: this.agentUpdateShader.getUniformLocation('u_agentTargetTexture'),
       uTrailTexture: this.agentUpdateShader.getUniformLocation('u_trailTexture'),
       uCanvasSize: this.agentUpdateShader.getUniformLocation('u_canvasSize'),
       uAgentTextureSize: this.agentUpdateShader.getUniformLocation('u_agentTextureSize'),
@@ -179,7 +190,10 @@ export class GPUSystem {
       uAgentSpeed: this.agentUpdateShader.getUniformLocation('u_agentSpeed'),
       uSensorDistance: this.agentUpdateShader.getUniformLocation('u_sensorDistance'),
       uSensorAngle: this.agentUpdateShader.getUniformLocation('u_sensorAngle'),
-      uTurnStrength: this.agentUpdateShader.getUniformLocation('u_turnStrength')
+      uTurnStrength: this.agentUpdateShader.getUniformLocation('u_turnStrength'),
+      uSimilarityInfluence: this.agentUpdateShader.getUniformLocation('u_similarityInfluence'),
+      uSpeciesTexture: this.agentUpdateShader.getUniformLocation('u_speciesTexture'),
+      uSpeciesCount: this.agentUpdateShader.getUniformLocation('u_speciesCount')
     };
 
     // Get uniform locations for agent properties update
@@ -194,7 +208,9 @@ export class GPUSystem {
       uAgentStateTexture: this.agentRenderShader.getUniformLocation('u_agentStateTexture'),
       uAgentPropertiesTexture: this.agentRenderShader.getUniformLocation('u_agentPropertiesTexture'),
       uAgentTextureSize: this.agentRenderShader.getUniformLocation('u_agentTextureSize'),
-      uCanvasSize: this.agentRenderShader.getUniformLocation('u_canvasSize')
+      uCanvasSize: this.agentRenderShader.getUniformLocation('u_canvasSize'),
+      uSpeciesTexture: this.agentRenderShader.getUniformLocation('u_speciesTexture'),
+      uSpeciesCount: this.agentRenderShader.getUniformLocation('u_speciesCount')
     };
   }
 
@@ -205,20 +221,18 @@ export class GPUSystem {
   }
 
   // Method to spawn agents directly into GPU textures  
-  public spawnAgents(agentData: AgentSpawnData[]): void {
+  public spawnAgents(agentData: AgentSpawnData[]): AgentSpawnData[] {
     const gl = this.gl;
-    
+    const accepted: AgentSpawnData[] = [];
+
     for (const data of agentData) {
-      if (this.availableAgentSlots.length === 0) {
-        console.warn(`No available agent slots.`);
-        break; // Stop trying to spawn if pool is empty
+      const slot = this.pool.acquire(data);
+      if (!slot.ok) {
+        console.warn(`Agent not spawned: ${slot.reason}`);
+        if (slot.reason === 'pool-full') break; // Stop trying to spawn if pool is empty
+        continue;
       }
-      const agentIndex = this.availableAgentSlots.pop()!;
-      this.activeAgents.set(agentIndex, { 
-        age: data.age, 
-        maxAge: Math.round(data.maxAge),
-        spawnYear: data.spawnYear // Store the spawn year
-      });
+      const agentIndex = slot.index;
 
       const x = agentIndex % this.agentTextureSize;
       const y = Math.floor(agentIndex / this.agentTextureSize);
@@ -227,10 +241,11 @@ export class GPUSystem {
       const propData = new Float32Array([
         data.age,
         data.maxAge,
-        data.isFrontier ? 1.0 : 0.0,
+        getSpeciesIndex(data.species),
         data.brightness
       ]);
-      const targetData = new Float32Array([data.targetClusterX, data.targetClusterY, 0.0, 0.0]);
+      // Properties has no free channel, so the bridge strength rides along with the target, also written once per agent
+      const targetData = new Float32Array([data.targetClusterX, data.targetClusterY, data.bridgeStrength, 0.0]);
 
       for (let i = 0; i < 2; i++) {
         gl.bindTexture(gl.TEXTURE_2D, this.agentStateTextures[i]);
@@ -242,22 +257,9 @@ export class GPUSystem {
         gl.bindTexture(gl.TEXTURE_2D, this.agentTargetTextures[i]);
         gl.texSubImage2D(gl.TEXTURE_2D, 0, x, y, 1, 1, gl.RGBA, gl.FLOAT, targetData);
       }
-
-      if (data.isFrontier) {
-        this.frontierAgentMirrors.set(agentIndex, {
-          id: agentIndex, x: data.x, y: data.y, vx: data.vx, vy: data.vy,
-          age: data.age, maxAge: data.maxAge,
-          sourceClusterId: data.sourceClusterId!, targetClusterId: data.targetClusterId!,
-          directive_verb: data.directive_verb!, directive_noun: data.directive_noun!,
-          projectTitle: data.projectTitle!,
-          sourceClusterName: data.sourceClusterName!,
-          sourceClusterColor: data.sourceClusterColor!,
-          isActive: true,
-          targetX: data.targetClusterX,
-          targetY: data.targetClusterY
-        });
-      }
+      accepted.push(data);
     }
+    return accepted;
   }
 
   private killAgentsOnGPU(indices: number[]): void {
@@ -278,23 +280,22 @@ export class GPUSystem {
   }
 
   // GPGPU agent update - processes agent logic entirely on GPU
-  public update(trailTexture: WebGLTexture, currentYear: number): void {
-    const PROJECT_ACTIVE_WINDOW_YEARS = 5.0; // This should match the value in simulation.ts
+  // Runs once per fixed simulation step; ages advance by the step length in seconds
+  public update(trailTexture: WebGLTexture, currentYear: number, stepSeconds: number): void {
+    const activeWindowYears = this.config.timeline.activeWindowYears;
     const deadAgentIndices: number[] = [];
     
-    for (const [index, agent] of this.activeAgents.entries()) {
-      agent.age++;
+    for (const [index, agent] of this.pool.entries()) {
+      agent.age += stepSeconds;
       
       // Check the mirror's status. If it's been flagged as inactive, the agent dies.
-      const mirror = this.frontierAgentMirrors.get(index);
+      const mirror = this.pool.getMirror(index);
       const hasArrived = mirror ? !mirror.isActive : false;
       
-      // NEW: Check if the agent has lived past its conceptual window
-      const hasExceededWindow = (currentYear - agent.spawnYear) > PROJECT_ACTIVE_WINDOW_YEARS;
+      // NEW: Check if the agent has lived past its conceptual window (in either direction, for reverse playback)
+      const hasExceededWindow = Math.abs(currentYear - agent.spawnYear) > activeWindowYears;
       
-      if (this.frontierAgentMirrors.has(index)) {
-        this.frontierAgentMirrors.get(index)!.age = agent.age;
-      }
+      if (mirror) mirror.age = agent.age;
       
       // Agent dies if it's too old OR its era has passed OR it has arrived
       if (agent.age > agent.maxAge || hasExceededWindow || hasArrived) {
@@ -304,12 +305,7 @@ export class GPUSystem {
     if (deadAgentIndices.length > 0) {
       this.killAgentsOnGPU(deadAgentIndices);
       for (const index of deadAgentIndices) {
-        if (this.frontierAgentMirrors.has(index)) {
-          this.deadFrontierAgents.push(this.frontierAgentMirrors.get(index)!);
-        }
-        this.activeAgents.delete(index);
-        this.availableAgentSlots.push(index);
-        this.frontierAgentMirrors.delete(index);
+        this.pool.release(index); // Frontier mirrors move to the dead list with their slot
       }
     }
 
@@ -343,14 +339,22 @@ export class GPUSystem {
     gl.bindTexture(gl.TEXTURE_2D, trailTexture);
     gl.uniform1i(this.agentUpdateUniforms.uTrailTexture!, 3);
 
+    // Bind the species table for per-species steering
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, this.speciesTexture);
+    gl.uniform1i(this.agentUpdateUniforms.uSpeciesTexture!, 4);
+    gl.uniform1f(this.agentUpdateUniforms.uSpeciesCount!, AGENT_SPECIES.length);
+
     // Set uniforms for agent behavior (slower for contemplative pacing)
+    const steering = this.config.steering;
     gl.uniform2f(this.agentUpdateUniforms.uCanvasSize!, this.width, this.height);
     gl.uniform1f(this.agentUpdateUniforms.uAgentTextureSize!, this.agentTextureSize);
-    gl.uniform1f(this.agentUpdateUniforms.uDeltaTime!, 0.5); // Much slower simulation
-    gl.uniform1f(this.agentUpdateUniforms.uAgentSpeed!, 1); // Much slower movement
-    gl.uniform1f(this.agentUpdateUniforms.uSensorDistance!, 15.0);
-    gl.uniform1f(this.agentUpdateUniforms.uSensorAngle!, Math.PI / 3);
-    gl.uniform1f(this.agentUpdateUniforms.uTurnStrength!, 0.1); // Effective organic steering
+    gl.uniform1f(this.agentUpdateUniforms.uDeltaTime!, steering.deltaTime);
+    gl.uniform1f(this.agentUpdateUniforms.uAgentSpeed!, steering.speed);
+    gl.uniform1f(this.agentUpdateUniforms.uSensorDistance!, steering.sensorDistance);
+    gl.uniform1f(this.agentUpdateUniforms.uSensorAngle!, steering.sensorAngleDegrees * Math.PI / 180);
+    gl.uniform1f(this.agentUpdateUniforms.uTurnStrength!, steering.turnStrength);
+    gl.uniform1f(this.agentUpdateUniforms.uSimilarityInfluence!, steering.similarityInfluence);
 
     // Process agent state update
     this.drawQuad(this.agentUpdateShader);
@@ -371,7 +375,7 @@ export class GPUSystem {
     gl.bindTexture(gl.TEXTURE_2D, this.agentStateTextures[this.currentAgentSourceIndex]);
     gl.uniform1i(this.agentPropertiesUniforms.uAgentStateTexture!, 1);
 
-    gl.uniform1f(this.agentPropertiesUniforms.uDeltaTime!, 0.3); // Match slower simulation
+    gl.uniform1f(this.agentPropertiesUniforms.uDeltaTime!, stepSeconds); // Same aging as the CPU bookkeeping above
 
     // Process agent properties update
     this.drawQuad(this.agentPropertiesShader);
@@ -417,6 +421,12 @@ export class GPUSystem {
     gl.bindTexture(gl.TEXTURE_2D, this.agentPropertiesTextures[this.currentAgentSourceIndex]);
     gl.uniform1i(this.agentRenderUniforms.uAgentPropertiesTexture!, 1);
 
+    // Bind the species table for per-species size and color
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, this.speciesTexture);
+    gl.uniform1i(this.agentRenderUniforms.uSpeciesTexture!, 2);
+    gl.uniform1f(this.agentRenderUniforms.uSpeciesCount!, AGENT_SPECIES.length);
+
     // Set uniforms
     gl.uniform1f(this.agentRenderUniforms.uAgentTextureSize!, this.agentTextureSize);
     gl.uniform2f(this.agentRenderUniforms.uCanvasSize!, this.width, this.height);
@@ -446,6 +456,14 @@ export class GPUSystem {
     return this.agentStateTextures[this.currentAgentSourceIndex];
   }
 
+  public getSpeciesTexture(): WebGLTexture {
+    return this.speciesTexture;
+  }
+
+  public getAgentTargetTexture(): WebGLTexture {
+    return this.agentTargetTextures[this.currentAgentSourceIndex];
+  }
+
   public getAgentPropertiesTexture(): WebGLTexture {
     return this.agentPropertiesTextures[this.currentAgentSourceIndex];
   }
@@ -455,7 +473,7 @@ export class GPUSystem {
   }
 
   public getActiveAgentCount(): number {
-    return this.activeAgents.size;
+    return this.pool.activeCount;
   }
 
   public getMaxAgents(): number {
@@ -463,13 +481,15 @@ export class GPUSystem {
   }
 
   public getFrontierAgentMirrors(): FrontierAgentMirror[] {
-    return Array.from(this.frontierAgentMirrors.values()).filter(mirror => mirror.isActive);
+    return Array.from(this.pool.mirrors()).filter(mirror => mirror.isActive);
   }
 
   public getDeadFrontierAgents(): FrontierAgentMirror[] {
-    const deadAgents = [...this.deadFrontierAgents];
-    this.deadFrontierAgents = [];
-    return deadAgents;
+    return this.pool.takeDeadFrontierAgents();
+  }
+
+  public getPoolStats(): AgentPoolStats {
+    return this.pool.getStats();
   }
 
   // Sync CPU mirrors with current GPU agent positions
@@ -496,7 +516,7 @@ export class GPUSystem {
     gl.bindFramebuffer(gl.FRAMEBUFFER, null);
     
     // Update mirrors with GPU data
-    for (const mirror of this.frontierAgentMirrors.values()) {
+    for (const mirror of this.pool.mirrors()) {
       if (!mirror.isActive) continue;
       
       // Calculate texture coordinates for this agent
@@ -510,65 +530,75 @@ export class GPUSystem {
       mirror.vx = pixels[pixelIndex + 2];
       mirror.vy = pixels[pixelIndex + 3];
       
-      // Update age from properties texture (age, maxAge, isFrontier, clusterHue)
+      // Update age from properties texture (age, maxAge, species, brightness)
       mirror.age = propPixels[pixelIndex];
     }
   }
 
   // Update CPU mirrors with current GPU data
   // This is the public method called by app.ts every frame
-  public updateFrontierMirrors(clusterCentroids: Map<number, ClusterInfo>): void {
+  // continueJourney may hand an arriving agent its next leg; without one the agent dies on arrival
+  public updateFrontierMirrors(
+    _clusterCentroids: Map<number, ClusterInfo>,
+    continueJourney?: (mirror: FrontierAgentMirror) => FrontierJourneyLeg | null
+  ): void {
     this.frontierArrivals = []; // Clear last frame's arrivals
 
-    //@ts-ignore
-    let some = clusterCentroids.get(0); // this is to get a warning message out of the way for unused variable
-
     // First, sync CPU mirrors with GPU agent data
     this.syncMirrorsWithGPU();
 
-    const GRACE_PERIOD_FRAMES = 5;
-
-    for (const mirror of this.frontierAgentMirrors.values()) {
+    for (const mirror of this.pool.mirrors()) {
       // If the agent is already marked as inactive, skip it.
       if (!mirror.isActive) continue;
 
-      // Check for arrival 
-      const distToTarget = Math.hypot(mirror.x - mirror.targetX, mirror.y - mirror.targetY);
-      
-      // DEBUGGING: Monitor the first Frontier agent's progress (reduced frequency)
-      if (mirror.id === Array.from(this.frontierAgentMirrors.keys())[0] && mirror.age % 60 === 0) {
-        console.log(`Agent ${mirror.id}: Dist to Target: ${distToTarget.toFixed(2)}, Age: ${mirror.age}, Max Age: ${mirror.maxAge}`);
-        
-        // Additional debug: Check if agent is about to die without reaching target
-        if (mirror.age > mirror.maxAge - 60 && distToTarget > 10.0) {
-          console.warn(`⚠️ Agent ${mirror.id} will die soon (age: ${mirror.age}/${mirror.maxAge}) but is still ${distToTarget.toFixed(2)} units from target!`);
-        }
-      }
-      
       // If the mirror has arrived, add it to the arrivals list for the ping effect.
       // The GPU will kill the agent, and the main GC loop will delete the mirror.
-      // Increased proximity threshold to make arrivals more likely
-      if (distToTarget < 30.0 && mirror.age > GRACE_PERIOD_FRAMES) {
-        console.log(`🎯 Frontier Agent ${mirror.id} arrived! "${mirror.directive_verb} ${mirror.directive_noun}" from ${mirror.sourceClusterName} → Target reached at (${mirror.targetX.toFixed(1)}, ${mirror.targetY.toFixed(1)})`);
+      if (hasReachedTarget(mirror)) {
+        const target = mirror.targetProjectId ? `project ${mirror.targetProjectId}` : 'Target';
+        console.log(`🎯 Frontier Agent ${mirror.id} arrived! "${mirror.directive_verb} ${mirror.directive_noun}" from ${mirror.sourceClusterName} → ${target} reached at (${mirror.targetX.toFixed(1)}, ${mirror.targetY.toFixed(1)})`);
         this.frontierArrivals.push({ x: mirror.targetX, y: mirror.targetY });
-        mirror.isActive = false; // Flag it for deletion.
+
+        const leg = continueJourney?.(mirror) ?? null;
+        if (leg) {
+          this.startJourneyLeg(mirror, leg);
+        } else {
+          mirror.isActive = false; // Flag it for deletion.
+        }
       }
     }
   }
 
-  public reset(): void {
-    // Clear all active agents
-    this.activeAgents.clear();
-    this.frontierAgentMirrors.clear();
-    this.deadFrontierAgents = [];
-    this.frontierArrivals = [];
+  // Sends an arrived Frontier agent on towards its next target with a fresh lifespan
+  private startJourneyLeg(mirror: FrontierAgentMirror, leg: FrontierJourneyLeg): void {
+    const agent = this.pool.get(mirror.id);
+    if (!agent) return;
+
+    agent.age = 0;
+    agent.maxAge = leg.maxAge;
+    agent.spawnYear = leg.startYear;
+
+    applyJourneyLeg(mirror, leg);
 
-    // Reset the agent pool - make all slots available
-    this.availableAgentSlots = [];
-    for (let i = 0; i < this.maxAgents; i++) {
-      this.availableAgentSlots.push(i);
+    const gl = this.gl;
+    const x = mirror.id % this.agentTextureSize;
+    const y = Math.floor(mirror.id / this.agentTextureSize);
+    const propData = new Float32Array([0.0, leg.maxAge, getSpeciesIndex('frontier'), agent.brightness]);
+    const targetData = new Float32Array([leg.targetX, leg.targetY, leg.bridgeStrength, 0.0]);
+    for (let i = 0; i < 2; i++) {
+      gl.bindTexture(gl.TEXTURE_2D, this.agentPropertiesTextures[i]);
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, x, y, 1, 1, gl.RGBA, gl.FLOAT, propData);
+      gl.bindTexture(gl.TEXTURE_2D, this.agentTargetTextures[i]);
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, x, y, 1, 1, gl.RGBA, gl.FLOAT, targetData);
     }
 
+    console.log(`🧭 Frontier Agent ${mirror.id} continues: ${mirror.itinerary.map(stop => stop.name).join(' → ')}`);
+  }
+
+  public reset(): void {
+    // Clear all active agents - make all slots available
+    this.pool.reset();
+    this.frontierArrivals = [];
+
     // Reset ping-pong index
     this.currentAgentSourceIndex = 0;
 
@@ -638,6 +668,8 @@ export class GPUSystem {
       gl.deleteFramebuffer(framebuffer);
     }
 
+    gl.deleteTexture(this.speciesTexture);
+
     // Delete shader programs
     this.agentUpdateShader.dispose();
     this.agentPropertiesShader.dispose();
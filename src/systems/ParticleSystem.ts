@@ -1,12 +1,17 @@
 import type { ClusteredData, PersistentParticle, ClusterInfo } from '../data/interfaces';
+import { Random } from '../core/Random';
 
 export class ParticleSystem {
   private persistentParticles: PersistentParticle[] = [];
   private clusters: Map<number, ClusterInfo> = new Map();
   private pings: { x: number, y: number, hue: number, age: number, maxAge: number }[] = [];
+  private projectScreenPositions: Map<string, { x: number, y: number }> | null = null; // Cached, rebuilt on resize
+  private highlightedProjects: Set<string> = new Set(); // Project ids ringed by the current storyboard chapter
 
   // Configuration
   private readonly MARGIN = 75; // Reduced from 150 to 75 for better screen usage
+  private readonly CONSTELLATION_ALPHA = 0.9;
+  private readonly STARFIELD_ALPHA = 0.5; // Brighter starfield
 
   // Visual bounds
   private minX: number = 0;
@@ -18,10 +23,13 @@ export class ParticleSystem {
   private offsetY: number = 0;
   private width: number;
   private height: number;
+  private random: Random; // Own sequence for phases and sizes, restarted on resize
 
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, random: Random) {
     this.width = width;
     this.height = height;
+    // Derived rather than shared, so rebuilding the particles never shifts the simulation's draws
+    this.random = random.derive('particles');
   }
 
   public initialize(data: ClusteredData): void {
@@ -82,7 +90,7 @@ export class ParticleSystem {
         centerX,
         centerY,
         particles: [],
-        breathPhase: Math.random() * Math.PI * 2,
+        breathPhase: this.random.next() * Math.PI * 2,
         density: cluster.projectCount,
         isActive: false
       });
@@ -105,8 +113,8 @@ export class ParticleSystem {
         clusterId: project.clusterId || project.cluster_id,
         isActive: false,
         birthYear: project.year,
-        phase: Math.random() * Math.PI * 2,
-        size: 1.5 + Math.random() * 1,
+        phase: this.random.next() * Math.PI * 2,
+        size: 1.5 + this.random.next() * 1,
         alpha: 0
       };
 
@@ -158,18 +166,64 @@ export class ParticleSystem {
     this.width = width;
     this.height = height;
 
-    // Recalculate bounds and reinitialize
+    // Recalculate bounds and reinitialize, with the same phases and sizes as before
+    this.random.reset();
+    this.projectScreenPositions = null;
+    this.persistentParticles = [];
     this.calculateBounds(data);
     this.initializeClusterInfo(data);
     this.createPersistentParticles(data);
   }
 
-  public getProjectScreenPositions(): Map<string, { x: number, y: number }> {
-    const positions = new Map<string, { x: number, y: number }>();
+  /**
+   * Marks projects to be drawn with a ring, e.g. the projects a storyboard chapter features.
+   */
+  public setHighlightedProjects(projectIds: string[]): void {
+    this.highlightedProjects = new Set(projectIds);
+  }
+
+  /**
+   * Returns every project to its dim starfield state at its base position, for a new cycle.
+   */
+  public reset(): void {
     for (const particle of this.persistentParticles) {
-      positions.set(particle.project.id, { x: particle.baseX, y: particle.baseY });
+      particle.isActive = false;
+      particle.alpha = 0;
+      particle.currentX = particle.targetX = particle.baseX;
+      particle.currentY = particle.targetY = particle.baseY;
+    }
+    for (const cluster of this.clusters.values()) {
+      cluster.isActive = false;
+    }
+    this.pings = [];
+  }
+
+  /**
+   * Puts every particle directly into its final state for a year, skipping the fade transitions.
+   * Used when seeking on the timeline.
+   */
+  public settle(currentYear: number, activeWindowYears: number): void {
+    this.update(currentYear, activeWindowYears);
+    for (const particle of this.persistentParticles) {
+      particle.alpha = particle.isActive ? this.CONSTELLATION_ALPHA : this.STARFIELD_ALPHA;
+      particle.currentX = particle.targetX;
+      particle.currentY = particle.targetY;
+    }
+    this.pings = [];
+  }
+
+  /**
+   * Base screen position of every project, keyed by project id.
+   * The map is cached and shared between callers, so treat the positions as read-only.
+   */
+  public getProjectScreenPositions(): Map<string, { x: number, y: number }> {
+    if (!this.projectScreenPositions) {
+      this.projectScreenPositions = new Map();
+      for (const particle of this.persistentParticles) {
+        this.projectScreenPositions.set(particle.project.id, { x: particle.baseX, y: particle.baseY });
+      }
     }
-    return positions;
+    return this.projectScreenPositions;
   }
 
   public update(currentYear: number, activeWindowYears: number = 5.0): void {
@@ -190,15 +244,13 @@ export class ParticleSystem {
           particle.targetX = particle.baseX + individualBreathe * Math.cos(particleAngle);
           particle.targetY = particle.baseY + individualBreathe * Math.sin(particleAngle);
         }
-        const targetAlpha = 0.9;
-        particle.alpha += (targetAlpha - particle.alpha) * 0.05;
+        particle.alpha += (this.CONSTELLATION_ALPHA - particle.alpha) * 0.05;
         particle.size = 2.0; // Larger active particles
       } else {
         // STARFIELD STATE: Faint grey dots
         particle.targetX = particle.baseX;
         particle.targetY = particle.baseY;
-        const starfieldAlpha = 0.5; // Brighter starfield
-        particle.alpha += (starfieldAlpha - particle.alpha) * 0.02;
+        particle.alpha += (this.STARFIELD_ALPHA - particle.alpha) * 0.02;
         particle.size = 1.2; // Larger, rounder starfield particles
       }
 
@@ -257,12 +309,32 @@ export class ParticleSystem {
     ctx.fillStyle = finalColor;
     ctx.fill();
   }
+
+  if (this.highlightedProjects.size > 0) {
+    this.renderHighlightedProjects(ctx);
+  }
   
   // Reset global alpha so other rendering isn't affected.
   ctx.globalAlpha = 1.0; 
   ctx.restore();
   }
 
+  private renderHighlightedProjects(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.strokeStyle = '#1a1a1a';
+    ctx.lineWidth = 1.5;
+
+    for (const particle of this.persistentParticles) {
+      if (!this.highlightedProjects.has(particle.id)) continue;
+      ctx.beginPath();
+      ctx.arc(particle.currentX, particle.currentY, 10, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
   private renderProtagonistClusters(ctx: CanvasRenderingContext2D, protagonistClusters: Array<{id: number, color: string, name: string}>): void {
     ctx.save();
     
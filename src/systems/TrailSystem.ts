@@ -1,5 +1,7 @@
 import { Shader } from '../rendering/Shader';
 import { createTexture, createFramebuffer, createScreenQuad } from '../rendering/utils';
+import type { SimulationConfig } from '../config/SimulationConfig';
+import { AGENT_SPECIES } from '../config/species';
 
 // Import shader sources
 import quadVertexSource from '../shaders/quad.vert?raw';
@@ -11,6 +13,7 @@ export class TrailSystem {
   private gl: WebGL2RenderingContext;
   private width: number;
   private height: number;
+  private config: SimulationConfig;
 
   // Trail system ping-pong buffers
   private trailTextures: WebGLTexture[] = [];
@@ -25,10 +28,6 @@ export class TrailSystem {
   // Screen quad for full-screen passes
   private screenQuadBuffer!: WebGLBuffer;
 
-  // Tuning parameters - SOFT TRAIL AESTHETIC WITH LAYERING
-  private readonly DECAY_FACTOR = 0.995; // Slower decay to allow more accumulation
-  private readonly TRAIL_STRENGTH = 0.08; // Lower strength so trails can layer without saturating
-
   // Uniform locations
   private trailUpdateUniforms!: {
     uTrailTexture: WebGLUniformLocation | null;
@@ -40,10 +39,14 @@ export class TrailSystem {
     uDecayedTrailTexture: WebGLUniformLocation | null;
     uAgentStateTexture: WebGLUniformLocation | null;
     uAgentPropertiesTexture: WebGLUniformLocation | null;
+    uAgentTargetTexture: WebGLUniformLocation | null;
+    uSpeciesTexture: WebGLUniformLocation | null;
+    uSpeciesCount: WebGLUniformLocation | null;
     uAgentTextureSize: WebGLUniformLocation | null;
     uActiveAgentCount: WebGLUniformLocation | null;
     uTrailStrength: WebGLUniformLocation | null;
     uCanvasSize: WebGLUniformLocation | null;
+    uSimilarityInfluence: WebGLUniformLocation | null;
   };
 
   private trailRenderUniforms!: {
@@ -54,10 +57,11 @@ export class TrailSystem {
   uDarkColor: WebGLUniformLocation | null;
   };
 
-  constructor(gl: WebGL2RenderingContext, width: number, height: number) {
+  constructor(gl: WebGL2RenderingContext, width: number, height: number, config: SimulationConfig) {
     this.gl = gl;
     this.width = width;
     this.height = height;
+    this.config = config; // Tuning parameters (decay, strength, tone) are read every frame
 
     this.initializeBuffers();
     this.initializeShaders();
@@ -111,10 +115,14 @@ export class TrailSystem {
       uDecayedTrailTexture: this.trailDepositionShader.getUniformLocation('u_decayedTrailTexture'),
       uAgentStateTexture: this.trailDepositionShader.getUniformLocation('u_agentStateTexture'),
       uAgentPropertiesTexture: this.trailDepositionShader.getUniformLocation('u_agentPropertiesTexture'),
+      uAgentTargetTexture: this.trailDepositionShader.getUniformLocation('u_agentTargetTexture'),
+      uSpeciesTexture: this.trailDepositionShader.getUniformLocation('u_speciesTexture'),
+      uSpeciesCount: this.trailDepositionShader.getUniformLocation('u_speciesCount'),
       uAgentTextureSize: this.trailDepositionShader.getUniformLocation('u_agentTextureSize'),
       uActiveAgentCount: this.trailDepositionShader.getUniformLocation('u_activeAgentCount'),
       uTrailStrength: this.trailDepositionShader.getUniformLocation('u_trailStrength'),
-      uCanvasSize: this.trailDepositionShader.getUniformLocation('u_canvasSize')
+      uCanvasSize: this.trailDepositionShader.getUniformLocation('u_canvasSize'),
+      uSimilarityInfluence: this.trailDepositionShader.getUniformLocation('u_similarityInfluence')
     };
 
     // Get uniform locations for trail rendering
@@ -130,6 +138,8 @@ export class TrailSystem {
   public update(
     agentStateTexture: WebGLTexture,
     agentPropertiesTexture: WebGLTexture,
+    agentTargetTexture: WebGLTexture,
+    speciesTexture: WebGLTexture,
     agentTextureSize: number,
     activeAgentCount: number
   ): void {
@@ -140,7 +150,7 @@ export class TrailSystem {
     this.updateTrails();
 
     // Pass 2: Agent trail deposition (from GPU state)
-    this.depositAgentTrails(agentStateTexture, agentPropertiesTexture, agentTextureSize, activeAgentCount);
+    this.depositAgentTrails(agentStateTexture, agentPropertiesTexture, agentTargetTexture, speciesTexture, agentTextureSize, activeAgentCount);
   }
 
   private updateTrails(): void {
@@ -156,7 +166,7 @@ export class TrailSystem {
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, this.trailTextures[this.currentTrailSourceIndex]);
     gl.uniform1i(this.trailUpdateUniforms.uTrailTexture!, 0);
-    gl.uniform1f(this.trailUpdateUniforms.uDecayFactor!, this.DECAY_FACTOR);
+    gl.uniform1f(this.trailUpdateUniforms.uDecayFactor!, this.config.trails.decayFactor);
   gl.uniform2f(this.trailUpdateUniforms.uTexelSize!, 1.0 / this.width, 1.0 / this.height);
 
     this.drawQuad(this.trailUpdateShader);
@@ -165,7 +175,14 @@ export class TrailSystem {
     this.currentTrailSourceIndex = destinationIndex as 0 | 1;
   }
 
-  private depositAgentTrails(agentStateTexture: WebGLTexture, agentPropertiesTexture: WebGLTexture, agentTextureSize: number, activeAgentCount: number): void {
+  private depositAgentTrails(
+    agentStateTexture: WebGLTexture,
+    agentPropertiesTexture: WebGLTexture,
+    agentTargetTexture: WebGLTexture,
+    speciesTexture: WebGLTexture,
+    agentTextureSize: number,
+    activeAgentCount: number
+  ): void {
     const gl = this.gl;
     const destinationIndex = 1 - this.currentTrailSourceIndex;
 
@@ -184,16 +201,28 @@ export class TrailSystem {
     gl.bindTexture(gl.TEXTURE_2D, agentStateTexture);
     gl.uniform1i(this.depositionUniforms.uAgentStateTexture!, 1);
 
-    // Bind agent properties texture (for frontier status)
+    // Bind agent properties texture (for the species)
     gl.activeTexture(gl.TEXTURE2);
     gl.bindTexture(gl.TEXTURE_2D, agentPropertiesTexture);
     gl.uniform1i(this.depositionUniforms.uAgentPropertiesTexture!, 2);
 
+    // Bind agent target texture (for bridge strength)
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, agentTargetTexture);
+    gl.uniform1i(this.depositionUniforms.uAgentTargetTexture!, 3);
+
+    // Bind the species table (for trail weights)
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, speciesTexture);
+    gl.uniform1i(this.depositionUniforms.uSpeciesTexture!, 4);
+    gl.uniform1f(this.depositionUniforms.uSpeciesCount!, AGENT_SPECIES.length);
+
     // Set uniforms
     gl.uniform1f(this.depositionUniforms.uAgentTextureSize!, agentTextureSize);
     gl.uniform1i(this.depositionUniforms.uActiveAgentCount!, activeAgentCount);
-    gl.uniform1f(this.depositionUniforms.uTrailStrength!, this.TRAIL_STRENGTH);
+    gl.uniform1f(this.depositionUniforms.uTrailStrength!, this.config.trails.strength);
     gl.uniform2f(this.depositionUniforms.uCanvasSize!, this.width, this.height);
+    gl.uniform1f(this.depositionUniforms.uSimilarityInfluence!, this.config.steering.similarityInfluence);
 
     this.drawQuad(this.trailDepositionShader);
 
@@ -239,9 +268,9 @@ export class TrailSystem {
     gl.bindTexture(gl.TEXTURE_2D, this.trailTextures[this.currentTrailSourceIndex]);
     gl.uniform1i(this.trailRenderUniforms.uTrailTexture!, 0);
 
-  // Tone / shaping parameters (tweak if you want different softness)
-  gl.uniform1f(this.trailRenderUniforms.uGamma!, 0.85);      // < 1 brightens mid-tones
-  gl.uniform1f(this.trailRenderUniforms.uContrast!, 1.4);    // >1 sharpens core lines
+  // Tone / shaping parameters (tweak the trails config for different softness)
+  gl.uniform1f(this.trailRenderUniforms.uGamma!, this.config.trails.gamma);
+  gl.uniform1f(this.trailRenderUniforms.uContrast!, this.config.trails.contrast);
   gl.uniform3f(this.trailRenderUniforms.uLightColor!, 0.94, 0.94, 0.94); // very light base (near UI bg)
   gl.uniform3f(this.trailRenderUniforms.uDarkColor!, 0.28, 0.28, 0.28);  // lighter max dark per request
 
@@ -257,6 +286,18 @@ export class TrailSystem {
     return this.trailTextures[this.currentTrailSourceIndex];
   }
 
+  // Clears both trail buffers back to black for a new cycle
+  public reset(): void {
+    const gl = this.gl;
+    for (const framebuffer of this.trailFramebuffers) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.clearColor(0.0, 0.0, 0.0, 1.0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.currentTrailSourceIndex = 0;
+  }
+
   public resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
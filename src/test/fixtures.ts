@@ -0,0 +1,183 @@
+import type { AgentSpawnData, Bridge, ClusteredData, ClusterInfo, FrontierAgentMirror, FrontierJourneyLeg, Project } from '../data/interfaces';
+import type { ConfigOverrides, SimulationConfig } from '../config/SimulationConfig';
+import { DEFAULT_CONFIG, mergeConfig } from '../config/SimulationConfig';
+import type { AgentBackend } from '../systems/AgentBackend';
+import type { AgentPoolStats } from '../systems/AgentPool';
+import { AGENT_SPECIES } from '../config/species';
+import type { AgentSpeciesId } from '../config/species';
+import { applyJourneyLeg, createFrontierMirror } from '../systems/AgentBackend';
+import { buildClusteredData } from '../data/clusters';
+import { DataIndex } from '../data/DataIndex';
+import { Random } from '../core/Random';
+import { ParticleSystem } from '../systems/ParticleSystem';
+import { Simulation } from '../simulation';
+import type { SimulationOptions } from '../simulation';
+
+// Shared test data: a small archive of six clusters with projects and bridges in every year,
+// and an agent backend that only records what it is asked to do.
+
+export const TEST_START_YEAR = 2000;
+export const TEST_END_YEAR = 2020;
+export const TEST_CLUSTER_COUNT = 6;
+
+/**
+ * Six clusters laid out on a circle, each with a project every year and a bridge to every other cluster
+ * every year. Bridge similarities vary between 0.70 and 0.95, so all of them pass minSpawnSimilarity.
+ */
+export function createTestData(): { data: ClusteredData; bridges: Bridge[] } {
+  const projects: Project[] = [];
+  const bridges: Bridge[] = [];
+
+  let projectId = 1;
+  for (let year = TEST_START_YEAR; year <= TEST_END_YEAR; year++) {
+    for (let cluster = 0; cluster < TEST_CLUSTER_COUNT; cluster++) {
+      const angle = cluster / TEST_CLUSTER_COUNT * Math.PI * 2;
+      const id = projectId++;
+      projects.push({
+        id: String(id),
+        title: `Project ${id}`,
+        text: `Project ${id} of cluster ${cluster}`,
+        year,
+        themes: [`theme ${cluster}`, `shared theme`],
+        x: Math.cos(angle) * 10 + (year - TEST_START_YEAR) * 0.01,
+        y: Math.sin(angle) * 10,
+        cluster_id: cluster
+      });
+
+      for (let target = 0; target < TEST_CLUSTER_COUNT; target++) {
+        if (target === cluster) continue;
+        bridges.push({
+          project_id: id,
+          year,
+          source_cluster: cluster,
+          target_cluster: target,
+          similarity_score: 0.7 + ((cluster * 7 + target * 3 + year) % 6) * 0.05
+        });
+      }
+    }
+  }
+
+  const names = Object.fromEntries(
+    Array.from({ length: TEST_CLUSTER_COUNT }, (_, cluster) => [String(cluster), `Cluster Name ${cluster}`])
+  );
+  return { data: buildClusteredData(projects, names), bridges };
+}
+
+/**
+ * Records spawned agents instead of simulating them. The active count and Frontier mirrors
+ * can be set directly, to put the simulation in any state.
+ */
+export class FakeAgentBackend implements AgentBackend {
+  public frontierArrivals: { x: number, y: number }[] = [];
+  public spawned: AgentSpawnData[] = [];
+  public activeAgentCount: number | null = null; // Overrides the count of spawned agents when set
+  public acceptLimit: number | null = null; // Accepts only this many agents per spawnAgents call when set, like a full pool
+  public frontierMirrors: FrontierAgentMirror[] = [];
+  public deadFrontierAgents: FrontierAgentMirror[] = [];
+  private maxAgents: number;
+
+  constructor(maxAgents: number = 1024) {
+    this.maxAgents = maxAgents;
+  }
+
+  public spawnAgents(agentData: AgentSpawnData[]): AgentSpawnData[] {
+    const accepted = agentData.slice(0, this.acceptLimit ?? agentData.length);
+    for (const data of accepted) {
+      this.spawned.push(data);
+      if (data.isFrontier) this.frontierMirrors.push(createFrontierMirror(this.spawned.length - 1, data));
+    }
+    return accepted;
+  }
+
+  public getActiveAgentCount(): number {
+    return this.activeAgentCount ?? this.spawned.length;
+  }
+
+  public getMaxAgents(): number {
+    return this.maxAgents;
+  }
+
+  public getFrontierAgentMirrors(): FrontierAgentMirror[] {
+    return this.frontierMirrors.filter(mirror => mirror.isActive);
+  }
+
+  public getDeadFrontierAgents(): FrontierAgentMirror[] {
+    const dead = this.deadFrontierAgents;
+    this.deadFrontierAgents = [];
+    return dead;
+  }
+
+  public getPoolStats(): AgentPoolStats {
+    const active = this.getActiveAgentCount();
+    return {
+      capacity: this.maxAgents,
+      active,
+      free: Math.max(0, this.maxAgents - active),
+      frontier: this.getFrontierAgentMirrors().length,
+      bySpecies: Object.fromEntries(AGENT_SPECIES.map(species =>
+        [species, this.spawned.filter(agent => agent.species === species).length]
+      )) as Record<AgentSpeciesId, number>,
+      peakActive: active,
+      acquired: this.spawned.length,
+      released: 0,
+      rejected: { 'pool-full': 0, 'invalid-lifespan': 0, 'invalid-position': 0 }
+    };
+  }
+
+  public updateFrontierMirrors(
+    _clusterCentroids: Map<number, ClusterInfo>,
+    continueJourney?: (mirror: FrontierAgentMirror) => FrontierJourneyLeg | null
+  ): void {
+    // Every active mirror arrives at once
+    for (const mirror of this.getFrontierAgentMirrors()) {
+      this.frontierArrivals.push({ x: mirror.targetX, y: mirror.targetY });
+      const leg = continueJourney?.(mirror) ?? null;
+      if (leg) {
+        applyJourneyLeg(mirror, leg);
+      } else {
+        mirror.isActive = false;
+      }
+    }
+  }
+
+  public reset(): void {
+    this.spawned = [];
+    this.activeAgentCount = null;
+    this.frontierMirrors = [];
+    this.deadFrontierAgents = [];
+    this.frontierArrivals = [];
+  }
+}
+
+export interface TestSimulation {
+  simulation: Simulation;
+  agents: FakeAgentBackend;
+  index: DataIndex;
+  config: SimulationConfig;
+  particleSystem: ParticleSystem;
+}
+
+/**
+ * A Simulation over the test data with a FakeAgentBackend, on a 1000 x 800 canvas.
+ */
+export function createTestSimulation(overrides: ConfigOverrides = {}, options: SimulationOptions = {}, seed: number = 42): TestSimulation {
+  const { data, bridges } = createTestData();
+  const config = mergeConfig(DEFAULT_CONFIG, overrides);
+  const random = new Random(seed);
+
+  const particleSystem = new ParticleSystem(1000, 800, random);
+  particleSystem.initialize(data);
+
+  const agents = new FakeAgentBackend(config.spawning.agentPoolSize);
+  const index = new DataIndex(data, bridges);
+  const simulation = new Simulation(particleSystem, agents, index, random, config, 1000, 800, options);
+  return { simulation, agents, index, config, particleSystem };
+}
+
+/**
+ * Moves the simulation to `year` and runs one step there, as the app does while playing.
+ */
+export function stepAt(simulation: Simulation, year: number, stepSeconds: number = 1 / 60): void {
+  simulation.currentYear = year;
+  simulation.update(stepSeconds);
+}
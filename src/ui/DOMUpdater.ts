@@ -1,3 +1,5 @@
+import type { AgentPoolStats } from '../systems/AgentPool';
+
 // Updates DOM elements like year display and performance stats
 
 export interface PerformanceStats {
@@ -6,6 +8,7 @@ export interface PerformanceStats {
   activeParticles: number;
   activeClusters: number;
   activeAgents: number;
+  agentPool: AgentPoolStats;
 }
 
 export class DOMUpdater {
@@ -72,6 +75,28 @@ export class DOMUpdater {
         agentCount.textContent = stats.activeAgents.toString();
       }
     }
+
+    if (stats.agentPool !== undefined) {
+      this.updatePoolStats(stats.agentPool);
+    }
+  }
+
+  // Slot usage as "used / capacity (pressure%)", and spawn rejections by reason
+  private updatePoolStats(pool: AgentPoolStats): void {
+    const poolStats = document.getElementById('poolStats');
+    if (poolStats) {
+      const pressure = pool.capacity > 0 ? Math.round(pool.active / pool.capacity * 100) : 0;
+      poolStats.textContent = `${pool.active} / ${pool.capacity} (${pressure}%), peak ${pool.peakActive}`;
+    }
+
+    const poolRejections = document.getElementById('poolRejections');
+    if (poolRejections) {
+      const reasons = Object.entries(pool.rejected).filter(([, count]) => count > 0);
+      const total = reasons.reduce((sum, [, count]) => sum + count, 0);
+      poolRejections.textContent = total === 0
+        ? '0'
+        : `${total} (${reasons.map(([reason, count]) => `${reason}: ${count}`).join(', ')})`;
+    }
   }
 
   public getFPS(): number {
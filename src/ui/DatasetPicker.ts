@@ -0,0 +1,34 @@
+import type { DatasetManifest } from '../data/interfaces';
+
+// Dataset selector in the performance panel, populated from the dataset manifest
+
+export class DatasetPicker {
+  private select: HTMLSelectElement | null;
+
+  constructor(manifest: DatasetManifest, selectedId: string, onSelect: (datasetId: string) => void) {
+    this.select = document.getElementById('datasetPicker') as HTMLSelectElement | null;
+    if (!this.select) return;
+
+    this.select.replaceChildren();
+    for (const dataset of manifest.datasets) {
+      const option = document.createElement('option');
+      option.value = dataset.id;
+      option.textContent = dataset.name;
+      this.select.appendChild(option);
+    }
+    this.select.value = selectedId;
+
+    this.select.onchange = () => {
+      if (this.select) onSelect(this.select.value);
+    };
+  }
+
+  public setSelected(datasetId: string): void {
+    if (this.select) this.select.value = datasetId;
+  }
+
+  // Disabled while a dataset is loading, so switches cannot overlap
+  public setDisabled(disabled: boolean): void {
+    if (this.select) this.select.disabled = disabled;
+  }
+}
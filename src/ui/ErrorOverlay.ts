@@ -0,0 +1,150 @@
+import type { ValidationReport } from '../data/validation';
+import { DataValidationError } from '../data/validation';
+import { ConfigValidationError } from '../config/SimulationConfig';
+
+// Full-screen overlay shown when the application cannot start, e.g. because a data file is broken
+
+export class ErrorOverlay {
+  private container: HTMLDivElement | null = null;
+
+  // Maximum number of issues rendered per severity, the rest is summarised
+  private readonly MAX_LISTED_ISSUES = 50;
+
+  public showError(error: unknown): void {
+    if (error instanceof DataValidationError) {
+      this.showReport('The dataset failed validation', error.report);
+      return;
+    }
+    if (error instanceof ConfigValidationError) {
+      this.render('The configuration is invalid', `${error.issues.length} problem(s) in the selected preset`, null, error.issues);
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    this.render('The visualization could not be started', message, null);
+  }
+
+  public showReport(title: string, report: ValidationReport): void {
+    const { stats } = report;
+    const years = stats.yearRange ? `, years ${stats.yearRange[0]}–${stats.yearRange[1]}` : '';
+    const summary = `${report.errorCount} error(s), ${report.warningCount} warning(s) — ` +
+      `${stats.projectCount} valid projects, ${stats.bridgeCount} valid bridges, ${stats.clusterCount} clusters${years}`;
+    this.render(title, summary, report);
+  }
+
+  public hide(): void {
+    this.container?.remove();
+    this.container = null;
+  }
+
+  private render(title: string, summary: string, report: ValidationReport | null, messages: string[] = []): void {
+    this.injectStyles();
+    this.hide();
+
+    this.container = document.createElement('div');
+    this.container.className = 'error-overlay';
+
+    const panel = document.createElement('div');
+    panel.className = 'error-overlay-panel';
+
+    const heading = document.createElement('h2');
+    heading.textContent = title;
+
+    const summaryElement = document.createElement('p');
+    summaryElement.className = 'error-overlay-summary';
+    summaryElement.textContent = summary;
+
+    panel.append(heading, summaryElement);
+
+    if (messages.length > 0) {
+      const list = document.createElement('ul');
+      list.className = 'error-overlay-list error';
+      for (const message of messages) {
+        const item = document.createElement('li');
+        item.textContent = message;
+        list.appendChild(item);
+      }
+      panel.appendChild(list);
+    }
+
+    if (report) {
+      for (const severity of ['error', 'warning'] as const) {
+        const issues = report.issues.filter(issue => issue.severity === severity);
+        if (issues.length === 0) continue;
+
+        const list = document.createElement('ul');
+        list.className = `error-overlay-list ${severity}`;
+        for (const issue of issues.slice(0, this.MAX_LISTED_ISSUES)) {
+          const item = document.createElement('li');
+          item.textContent = `[${issue.source}] ${issue.message}`;
+          list.appendChild(item);
+        }
+        if (issues.length > this.MAX_LISTED_ISSUES) {
+          const item = document.createElement('li');
+          item.textContent = `… and ${issues.length - this.MAX_LISTED_ISSUES} more (see console)`;
+          list.appendChild(item);
+        }
+        panel.appendChild(list);
+      }
+    }
+
+    this.container.appendChild(panel);
+    document.body.appendChild(this.container);
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById('error-overlay-styles')) return; // Prevent duplicate injection
+
+    const style = document.createElement('style');
+    style.id = 'error-overlay-styles';
+    style.textContent = `
+      .error-overlay {
+        position: fixed;
+        inset: 0;
+        background: rgba(250, 250, 250, 0.96);
+        z-index: 2000;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-family: 'JetBrains Mono', monospace;
+        color: #2a2a2a;
+      }
+
+      .error-overlay-panel {
+        max-width: 900px;
+        max-height: 80vh;
+        overflow-y: auto;
+        padding: 32px;
+        background: #ffffff;
+        border-left: 4px solid #db4135;
+        box-shadow: 0 5px 20px rgba(0,0,0,0.1);
+      }
+
+      .error-overlay-panel h2 {
+        margin: 0 0 12px 0;
+        font-size: 22px;
+      }
+
+      .error-overlay-summary {
+        font-size: 13px;
+        color: #666;
+        margin-bottom: 16px;
+      }
+
+      .error-overlay-list {
+        font-size: 12px;
+        line-height: 1.5;
+        padding-left: 18px;
+      }
+
+      .error-overlay-list.error {
+        color: #db4135;
+      }
+
+      .error-overlay-list.warning {
+        color: #8a6d0b;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+}
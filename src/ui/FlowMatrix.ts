@@ -0,0 +1,430 @@
+import type { DataIndex } from '../data/DataIndex';
+import type { CrossClusterFlows, FlowKind } from '../data/CrossClusterFlows';
+import type { SimulationConfig } from '../config/SimulationConfig';
+
+// Analytics panel showing which clusters feed which: a source (rows) × target (columns) matrix of the
+// agents spawned, or the Frontier journey legs departed or arrived, so far this cycle over a window of
+// years. Hovering a cell gives every count of the pair; the window is picked with two sliders or
+// follows the active window during playback.
+
+interface ProtagonistInfo {
+  id: number;
+  color: string;
+}
+
+export class FlowMatrix {
+  private container!: HTMLDivElement;
+  private canvas!: HTMLCanvasElement;
+  private ctx!: CanvasRenderingContext2D;
+  private summary!: HTMLDivElement;
+  private details!: HTMLDivElement;
+  private kindButtons: Map<FlowKind, HTMLButtonElement> = new Map();
+  private fromSlider!: HTMLInputElement;
+  private toSlider!: HTMLInputElement;
+  private windowLabel!: HTMLSpanElement;
+  private followCheckbox!: HTMLInputElement;
+
+  private flows: CrossClusterFlows;
+  private index: DataIndex;
+  private config: SimulationConfig;
+  private firstYear: number;
+  private lastYear: number;
+
+  private kind: FlowKind = 'spawned';
+  private windowStart: number;
+  private windowEnd: number;
+  private followPlayback: boolean = false;
+  private visible: boolean = false;
+
+  // Matrix as last drawn: clusters with activity in the window, in id order
+  private clusterIds: number[] = [];
+  private counts: Map<string, number> = new Map();
+  private maxCount: number = 0;
+  private cellSize: number = 0;
+  private hovered: { source: number; target: number } | null = null;
+  private protagonistColors: Map<number, string> = new Map();
+  private lastDrawTime: number = 0;
+
+  private readonly GRID_SIZE = 300; // pixels
+  private readonly LABEL_WIDTH = 110; // pixels, row labels on the left
+  private readonly HEADER_HEIGHT = 90; // pixels, rotated column labels on top
+  private readonly MAX_CELL_SIZE = 22; // pixels
+  private readonly REFRESH_MS = 500; // Redraw interval while the panel is open
+  private readonly CELL_COLOR = '255, 107, 53'; // Ledger accent, as rgb for the alpha ramp
+  private readonly FLOW_LABELS: Record<FlowKind, string> = {
+    spawned: 'agents spawned',
+    departed: 'Frontier legs departed',
+    arrived: 'Frontier legs arrived'
+  };
+
+  constructor(flows: CrossClusterFlows, index: DataIndex, config: SimulationConfig, startYear: number, endYear: number) {
+    this.flows = flows;
+    this.index = index;
+    this.config = config;
+    this.firstYear = Math.floor(startYear);
+    this.lastYear = Math.floor(endYear);
+    this.windowStart = this.firstYear;
+    this.windowEnd = this.lastYear;
+
+    this.injectStyles();
+    this.createStructure();
+  }
+
+  private createStructure(): void {
+    this.container = document.createElement('div');
+    this.container.className = 'flow-matrix';
+
+    const title = document.createElement('h4');
+    title.textContent = 'Cross-cluster flows';
+
+    // Which count the matrix shows
+    const kinds = document.createElement('div');
+    kinds.className = 'flow-matrix-row';
+    for (const [kind, label, hint] of [
+      ['spawned', 'All spawned', 'Agents of every species set out from the row cluster towards the column cluster'],
+      ['departed', 'Frontier out', 'Frontier journey legs that set out from the row cluster towards the column cluster'],
+      ['arrived', 'Frontier in', 'Frontier journey legs from the row cluster that reached the column cluster']
+    ] as const) {
+      const button = document.createElement('button');
+      button.className = 'flow-matrix-btn';
+      button.textContent = label;
+      button.title = hint;
+      button.onclick = () => this.setKind(kind);
+      this.kindButtons.set(kind, button);
+      kinds.appendChild(button);
+    }
+
+    // Year window
+    this.fromSlider = this.createYearSlider(this.windowStart);
+    this.toSlider = this.createYearSlider(this.windowEnd);
+    this.fromSlider.title = 'First year of the window';
+    this.toSlider.title = 'Last year of the window';
+    this.fromSlider.oninput = () => this.setWindow(parseInt(this.fromSlider.value), Math.max(this.windowEnd, parseInt(this.fromSlider.value)));
+    this.toSlider.oninput = () => this.setWindow(Math.min(this.windowStart, parseInt(this.toSlider.value)), parseInt(this.toSlider.value));
+
+    this.windowLabel = document.createElement('span');
+    this.windowLabel.className = 'flow-matrix-window';
+
+    const followLabel = document.createElement('label');
+    followLabel.className = 'flow-matrix-follow';
+    followLabel.title = 'Keep the window on the active years during playback';
+    this.followCheckbox = document.createElement('input');
+    this.followCheckbox.type = 'checkbox';
+    this.followCheckbox.onchange = () => {
+      this.followPlayback = this.followCheckbox.checked;
+      this.fromSlider.disabled = this.followPlayback;
+      this.toSlider.disabled = this.followPlayback;
+      if (!this.followPlayback) this.setWindow(this.firstYear, this.lastYear);
+    };
+    followLabel.append(this.followCheckbox, ' follow playback');
+
+    const windowRow = document.createElement('div');
+    windowRow.className = 'flow-matrix-row';
+    windowRow.append(this.windowLabel, followLabel);
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'flow-matrix-canvas';
+    this.canvas.width = this.LABEL_WIDTH + this.GRID_SIZE;
+    this.canvas.height = this.HEADER_HEIGHT + this.GRID_SIZE;
+    this.canvas.onmousemove = (event) => this.handleHover(event.offsetX, event.offsetY);
+    this.canvas.onmouseleave = () => this.handleHover(-1, -1);
+    this.ctx = this.canvas.getContext('2d')!;
+
+    this.summary = document.createElement('div');
+    this.summary.className = 'flow-matrix-summary';
+
+    this.details = document.createElement('div');
+    this.details.className = 'flow-matrix-details';
+
+    this.container.append(title, kinds, this.fromSlider, this.toSlider, windowRow, this.canvas, this.summary, this.details);
+    document.body.appendChild(this.container);
+
+    this.setKind(this.kind);
+    this.setWindow(this.windowStart, this.windowEnd);
+    this.showDetails();
+  }
+
+  private createYearSlider(value: number): HTMLInputElement {
+    const slider = document.createElement('input');
+    slider.type = 'range';
+    slider.className = 'flow-matrix-slider';
+    slider.min = this.firstYear.toString();
+    slider.max = this.lastYear.toString();
+    slider.step = '1';
+    slider.value = value.toString();
+    return slider;
+  }
+
+  private setKind(kind: FlowKind): void {
+    this.kind = kind;
+    this.kindButtons.forEach((button, buttonKind) => button.classList.toggle('active', buttonKind === kind));
+    this.draw();
+  }
+
+  private setWindow(start: number, end: number): void {
+    this.windowStart = Math.max(this.firstYear, Math.min(start, this.lastYear));
+    this.windowEnd = Math.max(this.windowStart, Math.min(end, this.lastYear));
+    this.fromSlider.value = this.windowStart.toString();
+    this.toSlider.value = this.windowEnd.toString();
+    this.windowLabel.textContent = this.windowStart === this.windowEnd
+      ? `${this.windowStart}`
+      : `${this.windowStart}–${this.windowEnd}`;
+    this.draw();
+  }
+
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    this.container.classList.toggle('visible', visible);
+    if (visible) this.draw();
+  }
+
+  /**
+   * Moves a following window along with playback and redraws the open panel every REFRESH_MS.
+   */
+  public update(currentYear: number, protagonists: ProtagonistInfo[]): void {
+    if (!this.visible) return;
+
+    this.protagonistColors = new Map(protagonists.map(protagonist => [protagonist.id, protagonist.color]));
+    if (this.followPlayback) {
+      const windowEnd = Math.floor(currentYear);
+      const windowStart = Math.floor(currentYear - this.config.timeline.activeWindowYears);
+      if (windowStart !== this.windowStart || windowEnd !== this.windowEnd) {
+        this.setWindow(windowStart, windowEnd);
+        return;
+      }
+    }
+
+    const now = performance.now();
+    if (now - this.lastDrawTime >= this.REFRESH_MS) this.draw();
+  }
+
+  private draw(): void {
+    if (!this.visible) return;
+    this.lastDrawTime = performance.now();
+
+    const activity = this.flows.getActivity(this.kind, this.windowStart, this.windowEnd);
+    this.counts = new Map(activity.map(flow => [`${flow.sourceCluster}-${flow.targetCluster}`, flow.count]));
+    this.maxCount = activity.length > 0 ? activity[0].count : 0; // Busiest pair comes first
+
+    const ids = new Set<number>();
+    let total = 0;
+    for (const flow of activity) {
+      ids.add(flow.sourceCluster);
+      ids.add(flow.targetCluster);
+      total += flow.count;
+    }
+    this.clusterIds = Array.from(ids).sort((a, b) => a - b);
+    this.cellSize = this.clusterIds.length > 0
+      ? Math.min(this.MAX_CELL_SIZE, this.GRID_SIZE / this.clusterIds.length)
+      : 0;
+
+    const what = this.FLOW_LABELS[this.kind];
+    this.summary.textContent = activity.length > 0
+      ? `${total} ${what} over ${activity.length} pathways between ${this.clusterIds.length} clusters`
+      : `No ${what} in this window yet`;
+
+    const ctx = this.ctx;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    if (this.clusterIds.length === 0) return;
+
+    const size = this.cellSize;
+    const gridExtent = size * this.clusterIds.length;
+    const hoveredRow = this.hovered ? this.clusterIds.indexOf(this.hovered.source) : -1;
+    const hoveredColumn = this.hovered ? this.clusterIds.indexOf(this.hovered.target) : -1;
+
+    // Crosshair behind the hovered cell
+    ctx.fillStyle = 'rgba(42, 42, 42, 0.06)';
+    if (hoveredRow >= 0) ctx.fillRect(this.LABEL_WIDTH, this.HEADER_HEIGHT + hoveredRow * size, gridExtent, size);
+    if (hoveredColumn >= 0) ctx.fillRect(this.LABEL_WIDTH + hoveredColumn * size, this.HEADER_HEIGHT, size, gridExtent);
+
+    for (let row = 0; row < this.clusterIds.length; row++) {
+      for (let column = 0; column < this.clusterIds.length; column++) {
+        const x = this.LABEL_WIDTH + column * size;
+        const y = this.HEADER_HEIGHT + row * size;
+        if (row === column) {
+          ctx.fillStyle = '#eeeeee'; // Bridges always cross clusters
+          ctx.fillRect(x + 1, y + 1, size - 2, size - 2);
+          continue;
+        }
+
+        const count = this.counts.get(`${this.clusterIds[row]}-${this.clusterIds[column]}`) ?? 0;
+        if (count === 0) continue;
+        // Square root ramp, so a few busy pathways do not wash out the rest
+        const alpha = 0.15 + 0.85 * Math.sqrt(count / this.maxCount);
+        ctx.fillStyle = `rgba(${this.CELL_COLOR}, ${alpha.toFixed(3)})`;
+        ctx.fillRect(x + 1, y + 1, size - 2, size - 2);
+      }
+    }
+
+    if (hoveredRow >= 0 && hoveredColumn >= 0) {
+      ctx.strokeStyle = '#2a2a2a';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(this.LABEL_WIDTH + hoveredColumn * size + 0.5, this.HEADER_HEIGHT + hoveredRow * size + 0.5, size - 1, size - 1);
+    }
+
+    this.drawLabels(ctx, size, hoveredRow, hoveredColumn);
+  }
+
+  // Short cluster names along both axes, in the protagonist color when the cluster is one
+  private drawLabels(ctx: CanvasRenderingContext2D, size: number, hoveredRow: number, hoveredColumn: number): void {
+    const fontSize = Math.max(8, Math.min(11, size - 2));
+    ctx.save();
+    ctx.textBaseline = 'middle';
+
+    this.clusterIds.forEach((clusterId, i) => {
+      const label = this.truncate(ctx, this.getClusterLabel(clusterId), this.LABEL_WIDTH - 6);
+      const color = this.protagonistColors.get(clusterId) ?? '#555555';
+
+      ctx.font = `${i === hoveredRow ? 'bold ' : ''}${fontSize}px 'JetBrains Mono', monospace`;
+      ctx.fillStyle = color;
+      ctx.textAlign = 'right';
+      ctx.fillText(label, this.LABEL_WIDTH - 6, this.HEADER_HEIGHT + (i + 0.5) * size);
+
+      ctx.save();
+      ctx.font = `${i === hoveredColumn ? 'bold ' : ''}${fontSize}px 'JetBrains Mono', monospace`;
+      ctx.translate(this.LABEL_WIDTH + (i + 0.5) * size, this.HEADER_HEIGHT - 6);
+      ctx.rotate(-Math.PI / 2);
+      ctx.textAlign = 'left';
+      ctx.fillText(this.truncate(ctx, this.getClusterLabel(clusterId), this.HEADER_HEIGHT - 10), 0, 0);
+      ctx.restore();
+    });
+
+    ctx.restore();
+  }
+
+  private truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let end = text.length;
+    while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+    return `${text.slice(0, end)}…`;
+  }
+
+  private getClusterLabel(clusterId: number): string {
+    return this.index.getCluster(clusterId)?.shortLabel || `Cluster ${clusterId}`;
+  }
+
+  private getClusterName(clusterId: number): string {
+    return this.index.getCluster(clusterId)?.displayName || `Cluster ${clusterId}`;
+  }
+
+  private handleHover(x: number, y: number): void {
+    const row = Math.floor((y - this.HEADER_HEIGHT) / this.cellSize);
+    const column = Math.floor((x - this.LABEL_WIDTH) / this.cellSize);
+    const inGrid = this.cellSize > 0 && row >= 0 && column >= 0 && row < this.clusterIds.length && column < this.clusterIds.length;
+    const hovered = inGrid && row !== column ? { source: this.clusterIds[row], target: this.clusterIds[column] } : null;
+
+    if (hovered?.source === this.hovered?.source && hovered?.target === this.hovered?.target) return;
+    this.hovered = hovered;
+    this.showDetails();
+    this.draw();
+  }
+
+  // Both counts of the hovered pair, whichever kind the matrix shows
+  private showDetails(): void {
+    if (!this.hovered) {
+      this.details.textContent = 'Hover a cell for the pathway';
+      return;
+    }
+
+    const { source, target } = this.hovered;
+    const count = (kind: FlowKind) => this.flows.getCount(kind, source, target, this.windowStart, this.windowEnd);
+    this.details.textContent = `${this.getClusterName(source)} → ${this.getClusterName(target)}: ` +
+      `${count('spawned')} agents spawned; Frontier legs ${count('departed')} departed, ${count('arrived')} arrived`;
+  }
+
+  public destroy(): void {
+    this.container.remove();
+    const style = document.getElementById('flow-matrix-styles');
+    if (style) {
+      style.remove();
+    }
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById('flow-matrix-styles')) return; // Prevent duplicate injection
+
+    const style = document.createElement('style');
+    style.id = 'flow-matrix-styles';
+    style.textContent = `
+      .flow-matrix {
+        position: fixed;
+        top: 20px;
+        right: 20px;
+        display: none;
+        flex-direction: column;
+        gap: 6px;
+        padding: 12px 14px;
+        background: rgba(250, 250, 250, 0.95);
+        border: 1px solid #e0e0e0;
+        font-family: 'JetBrains Mono', monospace;
+        font-size: 11px;
+        color: #2a2a2a;
+        z-index: 20; /* Level with the performance panel */
+      }
+
+      .flow-matrix.visible {
+        display: flex;
+      }
+
+      .flow-matrix h4 {
+        margin: 0;
+        font-size: 13px;
+        color: #ff6b35;
+      }
+
+      .flow-matrix-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .flow-matrix-btn {
+        background: linear-gradient(135deg, #f0f0f0, #e8e8e8);
+        border: 1px solid #ccc;
+        color: #2a2a2a;
+        font-family: inherit;
+        font-size: 11px;
+        height: 24px;
+        padding: 0 10px;
+        cursor: pointer;
+      }
+
+      .flow-matrix-btn.active {
+        background: #2a2a2a;
+        color: #ffffff;
+      }
+
+      .flow-matrix-slider {
+        width: 100%;
+        margin: 0;
+        accent-color: #2a2a2a;
+        cursor: pointer;
+      }
+
+      .flow-matrix-window {
+        font-weight: 700;
+        flex: 1;
+      }
+
+      .flow-matrix-follow {
+        color: #888;
+        cursor: pointer;
+      }
+
+      .flow-matrix-canvas {
+        display: block;
+      }
+
+      .flow-matrix-summary {
+        color: #888;
+      }
+
+      .flow-matrix-details {
+        min-height: 2.6em;
+        max-width: ${this.LABEL_WIDTH + this.GRID_SIZE}px;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+}
@@ -1,4 +1,5 @@
-import type { FrontierAgentMirror } from '../data/interfaces';
+import type { FrontierAgentMirror, FrontierScore } from '../data/interfaces';
+import type { TuningPanel } from './TuningPanel';
 
 export interface LedgerCallbacks {
   onPlayPause: (isPlaying: boolean) => void;
@@ -13,11 +14,13 @@ export class Ledger {
   // Configuration
   private showDebugControls: boolean = false; // Set to false to hide debug controls
   private showLifespanProgress: boolean = false; // Set to false to hide lifespan progress bars
+  private showScoreBreakdown: boolean = false; // Shows why each Frontier journey was chosen
   
   private container!: HTMLDivElement;
   private header!: HTMLDivElement;
   private body!: HTMLDivElement;
   private yearDisplay!: HTMLSpanElement;
+  private chapterDisplay!: HTMLDivElement;
   private controlsPanel!: HTMLDivElement;
   private agentElements: Map<number, HTMLDivElement> = new Map();
   private callbacks: LedgerCallbacks;
@@ -25,9 +28,13 @@ export class Ledger {
   // Responsive layout properties
   private currentOrientation: 'landscape' | 'portrait' = 'landscape';
   private resizeTimeout: number | null = null;
+  private initialYear: number;
+  private tuningPanel: TuningPanel | null;
 
-  constructor(callbacks: LedgerCallbacks) {
+  constructor(callbacks: LedgerCallbacks, initialYear: number, tuningPanel: TuningPanel | null = null) {
     this.callbacks = callbacks;
+    this.initialYear = initialYear;
+    this.tuningPanel = tuningPanel;
     this.currentOrientation = this.detectOrientation();
     this.createStructure();
     this.injectStyles();
@@ -112,7 +119,12 @@ export class Ledger {
     // 4. Create the Year Display (more dramatic)
     this.yearDisplay = document.createElement('div');
     this.yearDisplay.className = 'year-display';
-    this.yearDisplay.textContent = '1981';
+    this.yearDisplay.textContent = Math.floor(this.initialYear).toString();
+
+    // Storyboard chapter title, hidden when no chapter is running
+    this.chapterDisplay = document.createElement('div');
+    this.chapterDisplay.className = 'chapter-display';
+    this.chapterDisplay.style.display = 'none';
 
     // 5. Create debug controls panel
     this.controlsPanel = document.createElement('div');
@@ -153,27 +165,35 @@ export class Ledger {
     speedControl.append(speedLabel, speedSlider);
     this.controlsPanel.append(playPauseBtn, speedControl);
 
+    // 8. Append the parameter tuning sliders
+    if (this.tuningPanel) {
+      this.controlsPanel.appendChild(this.tuningPanel.element);
+    }
+
     // 9. Assemble the UI
-    this.header.append(this.yearDisplay, this.controlsPanel);
+    this.header.append(this.yearDisplay, this.chapterDisplay, this.controlsPanel);
     this.container.append(this.header, this.body);
     document.body.appendChild(this.container);
   }
 
-  private setupEventListeners(): void {
-    // Debounced resize handler
-    window.addEventListener('resize', () => {
-      if (this.resizeTimeout) {
-        clearTimeout(this.resizeTimeout);
-      }
-      this.resizeTimeout = window.setTimeout(() => {
-        this.handleOrientationChange();
-      }, 100);
-    });
+  // Debounced resize handler
+  private handleResize = (): void => {
+    if (this.resizeTimeout) {
+      clearTimeout(this.resizeTimeout);
+    }
+    this.resizeTimeout = window.setTimeout(() => {
+      this.handleOrientationChange();
+    }, 100);
+  };
 
-    // Orientation change handler (for mobile devices)
-    window.addEventListener('orientationchange', () => {
-      setTimeout(() => this.handleOrientationChange(), 100);
-    });
+  // Orientation change handler (for mobile devices)
+  private handleOrientationChangeEvent = (): void => {
+    setTimeout(() => this.handleOrientationChange(), 100);
+  };
+
+  private setupEventListeners(): void {
+    window.addEventListener('resize', this.handleResize);
+    window.addEventListener('orientationchange', this.handleOrientationChangeEvent);
   }
 
   public update(mirrors: FrontierAgentMirror[], currentYear: number): void {
@@ -212,6 +232,13 @@ export class Ledger {
           this.agentElements.delete(agent.id);
           element = this.createLedgerEntryElement(agent);
           this.spawnAgent(element, agent.id);
+        } else if (element.dataset.legs !== agent.itinerary.length.toString()) {
+          // The journey took another bridge: rebuild the card in place to show the longer path
+          const updated = this.createLedgerEntryElement(agent);
+          updated.classList.add('spawned');
+          element.replaceWith(updated);
+          this.agentElements.set(agent.id, updated);
+          element = updated;
         }
       }
 
@@ -234,6 +261,7 @@ export class Ledger {
   private createLedgerEntryElement(agent: FrontierAgentMirror): HTMLDivElement {
     const element = document.createElement('div');
     element.className = 'agent-card';
+    element.dataset.legs = agent.itinerary.length.toString();
     
     // Set the cluster color for the left border and pseudo-element
     element.style.borderLeftColor = agent.sourceClusterColor;
@@ -249,12 +277,14 @@ export class Ledger {
       agentDirective.className = 'agent-directive';
       agentDirective.textContent = `${agent.directive_verb}: ${agent.directive_noun}`;
 
-      const agentPathway = document.createElement('div');
-      agentPathway.className = 'agent-pathway';
-      agentPathway.innerHTML = `CLUSTER_${agent.sourceClusterId.toString().padStart(2, '0')} <span class="pathway-arrow">→</span> CLUSTER_${agent.targetClusterId.toString().padStart(2, '0')}`;
+      const agentPathway = this.createPathway(agent);
 
       element.append(agentId, agentDirective, agentPathway);
 
+      if (this.showScoreBreakdown && agent.score) {
+        element.appendChild(this.createScoreBreakdown(agent.score));
+      }
+
       if (this.showLifespanProgress) {
         const agentProgress = document.createElement('div');
         agentProgress.className = 'agent-progress';
@@ -292,9 +322,7 @@ export class Ledger {
       agentStatus.style.backgroundColor = agent.sourceClusterColor;
 
       // Column 4: Pathway
-      const agentPathway = document.createElement('div');
-      agentPathway.className = 'agent-pathway';
-      agentPathway.innerHTML = `CLUSTER_${agent.sourceClusterId.toString().padStart(2, '0')} <span class="pathway-arrow">→</span> CLUSTER_${agent.targetClusterId.toString().padStart(2, '0')}`;
+      const agentPathway = this.createPathway(agent);
 
       agentRow.append(agentId, agentDirective, agentStatus, agentPathway);
 
@@ -322,11 +350,69 @@ export class Ledger {
       } else {
         element.append(agentRow);
       }
+
+      if (this.showScoreBreakdown && agent.score) {
+        element.appendChild(this.createScoreBreakdown(agent.score));
+      }
     }
 
     return element;
   }
 
+  // CLUSTER_04 → CLUSTER_17 for a single bridge; a multi-hop journey lists the names of every cluster on its way
+  private createPathway(agent: FrontierAgentMirror): HTMLDivElement {
+    const pathway = document.createElement('div');
+    pathway.className = 'agent-pathway';
+
+    const stops = agent.itinerary.length > 2
+      ? agent.itinerary.map(stop => stop.name)
+      : agent.itinerary.map(stop => `CLUSTER_${stop.clusterId.toString().padStart(2, '0')}`);
+
+    stops.forEach((stop, i) => {
+      if (i > 0) {
+        const arrow = document.createElement('span');
+        arrow.className = 'pathway-arrow';
+        arrow.textContent = ' → ';
+        pathway.appendChild(arrow);
+      }
+      pathway.appendChild(document.createTextNode(stop));
+    });
+    return pathway;
+  }
+
+  // One line per weighted score component, e.g. "similarity 0.82 × 1.5"
+  private createScoreBreakdown(score: FrontierScore): HTMLDivElement {
+    const breakdown = document.createElement('div');
+    breakdown.className = 'agent-why';
+    breakdown.title = `Scored by the "${score.scorer}" model`;
+
+    for (const component of score.components) {
+      const row = document.createElement('div');
+      row.className = 'agent-why-row';
+
+      const label = document.createElement('span');
+      label.textContent = component.label;
+
+      const bar = document.createElement('span');
+      bar.className = 'agent-why-bar';
+      bar.style.width = `${Math.round(component.value * 100)}%`;
+
+      const value = document.createElement('span');
+      value.className = 'agent-why-value';
+      value.textContent = `${component.value.toFixed(2)} × ${component.weight}`;
+
+      row.append(label, value, bar);
+      breakdown.appendChild(row);
+    }
+
+    const total = document.createElement('div');
+    total.className = 'agent-why-total';
+    total.textContent = `score ${score.total.toFixed(2)}`;
+    breakdown.appendChild(total);
+
+    return breakdown;
+  }
+
   private updateAgentProgress(element: HTMLDivElement, agent: FrontierAgentMirror): void {
     if (!this.showLifespanProgress) return;
     
@@ -481,9 +567,29 @@ export class Ledger {
         margin-bottom: 12px;
       }
       
+      /* Storyboard chapter title */
+      .chapter-display {
+        color: #2a2a2a;
+        font-weight: 500;
+        letter-spacing: 2px;
+        text-transform: uppercase;
+        text-align: center;
+      }
+
+      .ledger.landscape .chapter-display {
+        font-size: 14px;
+        margin: -12px 0 16px 0;
+      }
+
+      .ledger.portrait .chapter-display {
+        font-size: 11px;
+        margin-bottom: 8px;
+      }
+      
       /* Controls panel */
       .controls-panel {
         display: flex;
+        flex-wrap: wrap;
         gap: 12px;
         align-items: center;
         margin-top: 8px;
@@ -729,6 +835,35 @@ export class Ledger {
         margin: 0 4px;
       }
       
+      /* Score breakdown ("why this journey") */
+      .agent-why {
+        margin-top: 8px;
+        font-size: 10px;
+        color: #666;
+      }
+
+      .agent-why-row {
+        display: grid;
+        grid-template-columns: 1fr auto;
+        margin-bottom: 3px;
+      }
+
+      .agent-why-value {
+        color: #1a1a1a;
+      }
+
+      .agent-why-bar {
+        grid-column: 1 / -1;
+        height: 2px;
+        background: var(--cluster-color, #666);
+      }
+
+      .agent-why-total {
+        text-align: right;
+        font-weight: 700;
+        color: #1a1a1a;
+      }
+
       .agent-progress {
         margin-top: 10px;
       }
@@ -843,6 +978,24 @@ export class Ledger {
     this.recreateAllAgentCards();
   }
 
+  // Shows the title of the running storyboard chapter, or hides it with null
+  public setChapterTitle(title: string | null): void {
+    this.chapterDisplay.textContent = title ?? '';
+    this.chapterDisplay.style.display = title ? 'block' : 'none';
+  }
+
+  // Public method to toggle the score breakdown on Frontier cards
+  public setScoreBreakdownVisible(visible: boolean): void {
+    this.showScoreBreakdown = visible;
+    this.recreateAllAgentCards();
+  }
+
+  // Clears all agent cards and rewinds the year display for a new cycle
+  public reset(year: number): void {
+    this.yearDisplay.textContent = Math.floor(year).toString();
+    this.recreateAllAgentCards();
+  }
+
   private recreateAllAgentCards(): void {
     this.agentElements.clear();
     const agentCards = this.body.querySelectorAll('.agent-card');
@@ -858,8 +1011,8 @@ export class Ledger {
   // Public method to remove the ledger
   public destroy(): void {
     // Clean up event listeners
-    window.removeEventListener('resize', this.handleOrientationChange);
-    window.removeEventListener('orientationchange', this.handleOrientationChange);
+    window.removeEventListener('resize', this.handleResize);
+    window.removeEventListener('orientationchange', this.handleOrientationChangeEvent);
     
     if (this.resizeTimeout) {
       clearTimeout(this.resizeTimeout);
@@ -0,0 +1,69 @@
+import type { CycleRecorder } from '../data/CycleRecorder';
+import { seriesToCsv, seriesToJson } from '../data/CycleRecorder';
+
+// Year series downloads in the performance panel: the running cycle, or the last full one, as CSV or JSON
+
+export class SeriesDownload {
+  private info: HTMLElement | null;
+  private csvButton: HTMLButtonElement | null;
+  private jsonButton: HTMLButtonElement | null;
+  private lastCycleCheckbox: HTMLInputElement | null;
+  private recorder: CycleRecorder;
+  private recordRunningYear: () => void;
+  private fileName: string;
+
+  constructor(recorder: CycleRecorder, recordRunningYear: () => void, fileName: string) {
+    this.recorder = recorder;
+    this.recordRunningYear = recordRunningYear;
+    this.fileName = fileName;
+
+    this.info = document.getElementById('seriesInfo');
+    this.csvButton = document.getElementById('downloadSeriesCsv') as HTMLButtonElement | null;
+    this.jsonButton = document.getElementById('downloadSeriesJson') as HTMLButtonElement | null;
+    this.lastCycleCheckbox = document.getElementById('seriesLastCycle') as HTMLInputElement | null;
+
+    if (this.csvButton) this.csvButton.onclick = () => this.download('csv');
+    if (this.jsonButton) this.jsonButton.onclick = () => this.download('json');
+    this.update();
+  }
+
+  /**
+   * Shows how many years each cycle holds; the last cycle can be picked once there is one.
+   */
+  public update(): void {
+    const lastCycle = this.recorder.getLastCycle();
+    if (this.info) {
+      this.info.textContent = `${this.recorder.size} years` + (lastCycle ? `, last cycle ${lastCycle.length}` : '');
+    }
+    if (this.lastCycleCheckbox) {
+      this.lastCycleCheckbox.disabled = !lastCycle;
+      if (!lastCycle) this.lastCycleCheckbox.checked = false;
+    }
+  }
+
+  private download(format: 'csv' | 'json'): void {
+    const useLastCycle = this.lastCycleCheckbox?.checked ?? false;
+    let series = this.recorder.getLastCycle();
+    if (!useLastCycle || !series) {
+      this.recordRunningYear();
+      series = this.recorder.getSeries();
+    }
+    if (series.length === 0) return;
+
+    const text = format === 'csv' ? seriesToCsv(series) : seriesToJson(series);
+    const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.fileName}-${series[0].year}-${series[series.length - 1].year}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log(`📊 Downloaded ${series.length} years as ${format.toUpperCase()}`);
+  }
+
+  public destroy(): void {
+    if (this.csvButton) this.csvButton.onclick = null;
+    if (this.jsonButton) this.jsonButton.onclick = null;
+    if (this.info) this.info.textContent = '-';
+  }
+}
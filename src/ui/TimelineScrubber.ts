@@ -0,0 +1,374 @@
+import type { DataIndex } from '../data/DataIndex';
+import type { SimulationConfig } from '../config/SimulationConfig';
+
+// Timeline bar along the bottom of the canvas: drag to seek, step by year, toggle reverse playback.
+// Above the slider a histogram shows projects and bridges per year, the protagonist swap points
+// and the active window, and clicking it jumps to that year.
+
+export interface TimelineScrubberCallbacks {
+  onSeek: (year: number) => void;
+  onStep: (years: number) => void;
+  onReverseChange: (reverse: boolean) => void;
+}
+
+interface ProtagonistInfo {
+  id: number;
+  color: string;
+}
+
+export class TimelineScrubber {
+  private container!: HTMLDivElement;
+  private track!: HTMLDivElement;
+  private histogram!: HTMLCanvasElement;
+  private histogramCtx!: CanvasRenderingContext2D;
+  private slider!: HTMLInputElement;
+  private yearLabel!: HTMLSpanElement;
+  private reverseBtn!: HTMLButtonElement;
+  private callbacks: TimelineScrubberCallbacks;
+  private index: DataIndex;
+  private config: SimulationConfig;
+
+  private startYear: number;
+  private endYear: number;
+  private isDragging: boolean = false;
+  private isReverse: boolean = false;
+
+  // Per-year totals, indexed from the first integer year of the timeline
+  private firstYear: number;
+  private projectCounts: number[] = [];
+  private bridgeCounts: number[] = [];
+  private maxProjectCount: number = 1;
+  private maxBridgeCount: number = 1;
+
+  // Per-year counts of the current protagonists, recomputed when the trio changes
+  private protagonistKey: string = '';
+  private protagonistCounts: Array<{ color: string; projects: number[]; bridges: number[] }> = [];
+
+  private readonly CONTROLS_HEIGHT = 44; // pixels
+  private readonly HISTOGRAM_HEIGHT = 48; // pixels
+  private readonly BAR_HEIGHT = this.CONTROLS_HEIGHT + this.HISTOGRAM_HEIGHT;
+  private readonly BASE_PROJECT_COLOR = '#cfcfcf';
+  private readonly BASE_BRIDGE_COLOR = '#8a8a8a';
+
+  constructor(
+    callbacks: TimelineScrubberCallbacks,
+    index: DataIndex,
+    config: SimulationConfig,
+    startYear: number,
+    endYear: number
+  ) {
+    this.callbacks = callbacks;
+    this.index = index;
+    this.config = config;
+    this.startYear = startYear;
+    this.endYear = endYear;
+    this.firstYear = Math.ceil(startYear);
+
+    this.computeYearTotals();
+    this.injectStyles();
+    this.createStructure();
+  }
+
+  private computeYearTotals(): void {
+    for (let year = this.firstYear; year <= this.endYear; year++) {
+      this.projectCounts.push(this.index.getProjectCountForYear(year));
+      this.bridgeCounts.push(this.index.getBridgeCountForYear(year));
+    }
+    this.maxProjectCount = Math.max(1, ...this.projectCounts);
+    this.maxBridgeCount = Math.max(1, ...this.bridgeCounts);
+  }
+
+  private computeProtagonistCounts(protagonists: ProtagonistInfo[]): void {
+    const key = protagonists.map(p => `${p.id}:${p.color}`).join(',');
+    if (key === this.protagonistKey) return;
+    this.protagonistKey = key;
+
+    this.protagonistCounts = protagonists.map(protagonist => {
+      const projects: number[] = [];
+      const bridges: number[] = [];
+      for (let year = this.firstYear; year <= this.endYear; year++) {
+        projects.push(this.index.countActiveProjects(protagonist.id, year, year));
+        bridges.push(this.index.getBridgeCountForYear(year, protagonist.id));
+      }
+      return { color: protagonist.color, projects, bridges };
+    });
+  }
+
+  private createStructure(): void {
+    this.container = document.createElement('div');
+    this.container.className = 'timeline-scrubber';
+
+    this.reverseBtn = this.createButton('◀', 'Play in reverse', () => this.setReverse(!this.isReverse, true));
+    const stepBackBtn = this.createButton('−1', 'Back one year', () => this.callbacks.onStep(-1));
+    const stepForwardBtn = this.createButton('+1', 'Forward one year', () => this.callbacks.onStep(1));
+
+    const startLabel = document.createElement('span');
+    startLabel.className = 'timeline-bound';
+    startLabel.textContent = Math.floor(this.startYear).toString();
+
+    // Histogram and slider share a track, so years line up vertically
+    this.track = document.createElement('div');
+    this.track.className = 'timeline-track';
+
+    this.histogram = document.createElement('canvas');
+    this.histogram.className = 'timeline-histogram';
+    this.histogram.height = this.HISTOGRAM_HEIGHT;
+    this.histogram.title = 'Projects (wide bars) and bridges (narrow bars) per year — click to jump';
+    this.histogram.onclick = (event) => this.callbacks.onSeek(this.xToYear(event.offsetX));
+    this.histogramCtx = this.histogram.getContext('2d')!;
+
+    this.slider = document.createElement('input');
+    this.slider.type = 'range';
+    this.slider.className = 'timeline-slider';
+    this.slider.min = this.startYear.toString();
+    this.slider.max = this.endYear.toString();
+    this.slider.step = '0.1';
+    this.slider.value = this.startYear.toString();
+    this.slider.onpointerdown = () => this.isDragging = true;
+    this.slider.onpointerup = () => this.isDragging = false;
+    this.slider.onchange = () => this.isDragging = false; // Pointer released outside the slider
+    this.slider.oninput = () => {
+      const year = parseFloat(this.slider.value);
+      this.yearLabel.textContent = Math.floor(year).toString();
+      this.callbacks.onSeek(year);
+    };
+
+    this.track.append(this.histogram, this.slider);
+
+    const endLabel = document.createElement('span');
+    endLabel.className = 'timeline-bound';
+    endLabel.textContent = Math.floor(this.endYear).toString();
+
+    this.yearLabel = document.createElement('span');
+    this.yearLabel.className = 'timeline-year';
+    this.yearLabel.textContent = Math.floor(this.startYear).toString();
+
+    this.container.append(this.reverseBtn, stepBackBtn, startLabel, this.track, endLabel, stepForwardBtn, this.yearLabel);
+    document.body.appendChild(this.container);
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'timeline-btn';
+    button.textContent = text;
+    button.title = title;
+    button.onclick = onClick;
+    return button;
+  }
+
+  private yearToX(year: number): number {
+    const span = Math.max(this.endYear - this.startYear, 1e-6);
+    return ((year - this.startYear) / span) * this.histogram.width;
+  }
+
+  private xToYear(x: number): number {
+    const span = this.endYear - this.startYear;
+    return this.startYear + (x / Math.max(this.histogram.width, 1)) * span;
+  }
+
+  /**
+   * Moves the handle to the current year, unless the user is dragging it, and redraws the histogram.
+   */
+  public update(currentYear: number, protagonists: ProtagonistInfo[]): void {
+    if (!this.isDragging) {
+      this.slider.value = currentYear.toString();
+      this.yearLabel.textContent = Math.floor(currentYear).toString();
+    }
+
+    this.computeProtagonistCounts(protagonists);
+    this.drawHistogram(currentYear);
+  }
+
+  private drawHistogram(currentYear: number): void {
+    const ctx = this.histogramCtx;
+    const width = this.histogram.width;
+    const height = this.HISTOGRAM_HEIGHT;
+    ctx.clearRect(0, 0, width, height);
+    if (width === 0) return;
+
+    const yearWidth = this.yearToX(this.startYear + 1) - this.yearToX(this.startYear);
+    const projectBarWidth = Math.max(1, yearWidth * 0.55);
+    const bridgeBarWidth = Math.max(1, yearWidth * 0.2);
+    const usableHeight = height - 8; // Leave room for the window bracket
+    const baseline = height;
+
+    for (let i = 0; i < this.projectCounts.length; i++) {
+      const x = this.yearToX(this.firstYear + i) - (projectBarWidth + bridgeBarWidth) / 2;
+
+      // Projects: grey total with the protagonists' share stacked from the bottom
+      const projectHeight = (this.projectCounts[i] / this.maxProjectCount) * usableHeight;
+      ctx.fillStyle = this.BASE_PROJECT_COLOR;
+      ctx.fillRect(x, baseline - projectHeight, projectBarWidth, projectHeight);
+
+      let stacked = 0;
+      for (const protagonist of this.protagonistCounts) {
+        const segment = (protagonist.projects[i] / this.maxProjectCount) * usableHeight;
+        ctx.fillStyle = protagonist.color;
+        ctx.fillRect(x, baseline - stacked - segment, projectBarWidth, segment);
+        stacked += segment;
+      }
+
+      // Bridges: narrow bar next to the projects, same stacking
+      const bridgeX = x + projectBarWidth;
+      const bridgeHeight = (this.bridgeCounts[i] / this.maxBridgeCount) * usableHeight;
+      ctx.fillStyle = this.BASE_BRIDGE_COLOR;
+      ctx.fillRect(bridgeX, baseline - bridgeHeight, bridgeBarWidth, bridgeHeight);
+
+      stacked = 0;
+      for (const protagonist of this.protagonistCounts) {
+        const segment = (protagonist.bridges[i] / this.maxBridgeCount) * usableHeight;
+        ctx.fillStyle = protagonist.color;
+        ctx.fillRect(bridgeX, baseline - stacked - segment, bridgeBarWidth, segment);
+        stacked += segment;
+      }
+    }
+
+    this.drawSwapMarkers(ctx, height);
+    this.drawActiveWindow(ctx, currentYear, height);
+  }
+
+  // Dashed lines where Simulation.update() picks a new protagonist trio
+  private drawSwapMarkers(ctx: CanvasRenderingContext2D, height: number): void {
+    const period = this.config.timeline.protagonistPeriodYears;
+    ctx.save();
+    ctx.strokeStyle = 'rgba(42, 42, 42, 0.35)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 3]);
+    for (let year = Math.floor(this.startYear) + period; year < this.endYear; year += period) {
+      const x = Math.round(this.yearToX(year)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  // Bracket over the years whose projects are currently active, ending at the current year
+  private drawActiveWindow(ctx: CanvasRenderingContext2D, currentYear: number, height: number): void {
+    const windowStartX = this.yearToX(Math.max(this.startYear, currentYear - this.config.timeline.activeWindowYears));
+    const currentX = this.yearToX(currentYear);
+
+    ctx.save();
+    ctx.strokeStyle = '#2a2a2a';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(windowStartX, 6);
+    ctx.lineTo(windowStartX, 2);
+    ctx.lineTo(currentX, 2);
+    ctx.lineTo(currentX, 6);
+    ctx.stroke();
+
+    ctx.fillStyle = 'rgba(42, 42, 42, 0.06)';
+    ctx.fillRect(windowStartX, 2, currentX - windowStartX, height - 2);
+
+    // Current year
+    ctx.beginPath();
+    ctx.moveTo(currentX, 0);
+    ctx.lineTo(currentX, height);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  public setReverse(reverse: boolean, notify: boolean = false): void {
+    this.isReverse = reverse;
+    this.reverseBtn.classList.toggle('active', reverse);
+    this.reverseBtn.title = reverse ? 'Play forward' : 'Play in reverse';
+    if (notify) this.callbacks.onReverseChange(reverse);
+  }
+
+  /**
+   * Keeps the bar aligned with the bottom edge of the canvas.
+   */
+  public resize(width: number, height: number): void {
+    this.container.style.width = `${width}px`;
+    this.container.style.top = `${height - this.BAR_HEIGHT}px`;
+    this.histogram.width = this.track.clientWidth;
+  }
+
+  public destroy(): void {
+    this.container.remove();
+    const style = document.getElementById('timeline-scrubber-styles');
+    if (style) {
+      style.remove();
+    }
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById('timeline-scrubber-styles')) return; // Prevent duplicate injection
+
+    const style = document.createElement('style');
+    style.id = 'timeline-scrubber-styles';
+    style.textContent = `
+      .timeline-scrubber {
+        position: fixed;
+        left: 0;
+        height: ${this.BAR_HEIGHT}px;
+        box-sizing: border-box;
+        display: flex;
+        align-items: flex-end;
+        gap: 10px;
+        padding: 0 16px 8px 16px;
+        background: rgba(250, 250, 250, 0.85);
+        border-top: 1px solid #e0e0e0;
+        font-family: 'JetBrains Mono', monospace;
+        color: #2a2a2a;
+        z-index: 15; /* Above the 2D overlay canvas, below the performance panel */
+      }
+
+      .timeline-track {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        min-width: 0;
+      }
+
+      .timeline-histogram {
+        display: block;
+        width: 100%;
+        height: ${this.HISTOGRAM_HEIGHT}px;
+        cursor: pointer;
+      }
+
+      .timeline-slider {
+        width: 100%;
+        height: 6px;
+        margin: 8px 0 6px 0;
+        accent-color: #2a2a2a;
+        cursor: pointer;
+      }
+
+      .timeline-bound {
+        font-size: 11px;
+        color: #888;
+        line-height: 28px;
+      }
+
+      .timeline-year {
+        font-size: 14px;
+        font-weight: 700;
+        min-width: 40px;
+        text-align: right;
+        line-height: 28px;
+      }
+
+      .timeline-btn {
+        background: linear-gradient(135deg, #f0f0f0, #e8e8e8);
+        border: 1px solid #ccc;
+        color: #2a2a2a;
+        font-family: inherit;
+        font-size: 12px;
+        min-width: 32px;
+        height: 28px;
+        cursor: pointer;
+      }
+
+      .timeline-btn.active {
+        background: #2a2a2a;
+        color: #ffffff;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+}
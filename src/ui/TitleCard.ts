@@ -0,0 +1,110 @@
+import type { StoryboardChapter } from '../narrative/Storyboard';
+import { DEFAULT_TITLE_CARD_SECONDS } from '../narrative/Storyboard';
+
+// Full-width card over the canvas announcing a storyboard chapter, fades out on its own
+
+export class TitleCard {
+  private element: HTMLDivElement;
+  private titleElement: HTMLDivElement;
+  private captionElement: HTMLDivElement;
+  private hideTimeout: number | null = null;
+
+  private readonly FADE_MS = 800; // Matches the opacity transition below
+
+  constructor() {
+    this.injectStyles();
+
+    this.element = document.createElement('div');
+    this.element.className = 'title-card';
+
+    this.titleElement = document.createElement('div');
+    this.titleElement.className = 'title-card-title';
+
+    this.captionElement = document.createElement('div');
+    this.captionElement.className = 'title-card-caption';
+
+    this.element.append(this.titleElement, this.captionElement);
+    document.body.appendChild(this.element);
+  }
+
+  public show(chapter: StoryboardChapter): void {
+    const seconds = chapter.titleCardSeconds ?? DEFAULT_TITLE_CARD_SECONDS;
+    if (seconds <= 0) return;
+
+    this.titleElement.textContent = chapter.title;
+    this.captionElement.textContent = chapter.caption ?? '';
+    this.captionElement.style.display = chapter.caption ? 'block' : 'none';
+    this.element.classList.add('visible');
+
+    if (this.hideTimeout) clearTimeout(this.hideTimeout);
+    this.hideTimeout = window.setTimeout(() => this.hide(), seconds * 1000 - this.FADE_MS);
+  }
+
+  public hide(): void {
+    if (this.hideTimeout) {
+      clearTimeout(this.hideTimeout);
+      this.hideTimeout = null;
+    }
+    this.element.classList.remove('visible');
+  }
+
+  /**
+   * Places the card over the canvas, which the Ledger leaves on the left or top.
+   */
+  public resize(width: number, height: number): void {
+    this.element.style.width = `${width}px`;
+    this.element.style.top = `${Math.round(height * 0.4)}px`;
+  }
+
+  public destroy(): void {
+    this.hide();
+    this.element.remove();
+    const style = document.getElementById('title-card-styles');
+    if (style) {
+      style.remove();
+    }
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById('title-card-styles')) return; // Prevent duplicate injection
+
+    const style = document.createElement('style');
+    style.id = 'title-card-styles';
+    style.textContent = `
+      .title-card {
+        position: fixed;
+        left: 0;
+        top: 40%;
+        z-index: 20;
+        pointer-events: none;
+        text-align: center;
+        opacity: 0;
+        transition: opacity ${this.FADE_MS}ms ease;
+      }
+
+      .title-card.visible {
+        opacity: 1;
+      }
+
+      .title-card-title {
+        display: inline-block;
+        background: rgba(250, 250, 250, 0.9);
+        color: #1a1a1a;
+        font-size: 36px;
+        font-weight: 700;
+        letter-spacing: 4px;
+        text-transform: uppercase;
+        padding: 12px 28px;
+      }
+
+      .title-card-caption {
+        margin-top: 10px;
+        color: #2a2a2a;
+        font-size: 16px;
+        letter-spacing: 1px;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+}
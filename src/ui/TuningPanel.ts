@@ -0,0 +1,326 @@
+import type { ConfigPreset, ConfigSection, SimulationConfig } from '../config/SimulationConfig';
+import { BRIDGE_SCORERS, DEFAULT_CONFIG, PROTAGONIST_STRATEGIES, TARGETING_MODES, assignConfig, createConfig, diffConfig } from '../config/SimulationConfig';
+
+// Sliders bound to the shared simulation config. Systems read the config every frame,
+// so a slider change is visible immediately. Lives inside the Ledger's controls panel.
+
+interface TuningControl {
+  section: ConfigSection;
+  key: string;
+  label: string;
+  min: number;
+  max: number | ((config: SimulationConfig) => number); // A function for limits set by other values
+  step: number;
+}
+
+// A text setting with a fixed set of values, shown as a dropdown
+interface TuningChoice {
+  section: ConfigSection;
+  key: string;
+  label: string;
+  options: readonly string[];
+}
+
+interface TuningGroup {
+  title: string;
+  controls: Array<TuningControl | TuningChoice>;
+}
+
+const TUNING_GROUPS: TuningGroup[] = [
+  {
+    title: 'Steering',
+    controls: [
+      { section: 'steering', key: 'sensorDistance', label: 'Sensor distance', min: 0, max: 60, step: 0.5 },
+      { section: 'steering', key: 'sensorAngleDegrees', label: 'Sensor angle (°)', min: 0, max: 120, step: 1 },
+      { section: 'steering', key: 'turnStrength', label: 'Turn strength', min: 0, max: 1, step: 0.01 },
+      { section: 'steering', key: 'similarityInfluence', label: 'Similarity influence', min: 0, max: 2, step: 0.05 },
+      { section: 'steering', key: 'speed', label: 'Agent speed', min: 0, max: 4, step: 0.05 },
+      { section: 'steering', key: 'deltaTime', label: 'Delta time', min: 0, max: 2, step: 0.05 }
+    ]
+  },
+  {
+    title: 'Trails',
+    controls: [
+      { section: 'trails', key: 'decayFactor', label: 'Decay factor', min: 0.9, max: 1, step: 0.001 },
+      { section: 'trails', key: 'strength', label: 'Strength', min: 0, max: 0.5, step: 0.005 },
+      { section: 'trails', key: 'gamma', label: 'Gamma', min: 0.1, max: 3, step: 0.05 },
+      { section: 'trails', key: 'contrast', label: 'Contrast', min: 0.1, max: 3, step: 0.05 }
+    ]
+  },
+  {
+    title: 'Spawning',
+    controls: [
+      { section: 'spawning', key: 'maxTotalAgents', label: 'Max agents', min: 0, max: config => config.spawning.agentPoolSize, step: 10 },
+      { section: 'spawning', key: 'maxAgentsPerFrame', label: 'Max spawns per year', min: 1, max: 200, step: 1 },
+      { section: 'spawning', key: 'maxFrontierAgents', label: 'Max frontier agents', min: 0, max: 30, step: 1 },
+      { section: 'spawning', key: 'maxJourneyLegs', label: 'Frontier journey legs', min: 1, max: 6, step: 1 },
+      { section: 'spawning', key: 'targeting', label: 'Agent targets', options: TARGETING_MODES },
+      { section: 'spawning', key: 'wandererShare', label: 'Wanderer share', min: 0, max: 1, step: 0.05 },
+      { section: 'spawning', key: 'scoutShare', label: 'Scout share', min: 0, max: 1, step: 0.05 },
+      { section: 'spawning', key: 'minSpawnSimilarity', label: 'Min similarity', min: 0, max: 0.99, step: 0.01 }
+    ]
+  },
+  {
+    title: 'Frontier scoring',
+    controls: [
+      { section: 'scoring', key: 'scorer', label: 'Scorer', options: BRIDGE_SCORERS },
+      { section: 'scoring', key: 'recency', label: 'Recency weight', min: 0, max: 5, step: 0.1 },
+      { section: 'scoring', key: 'intensity', label: 'Similarity weight', min: 0, max: 5, step: 0.1 },
+      { section: 'scoring', key: 'bridgeBuilding', label: 'Distance weight', min: 0, max: 5, step: 0.1 },
+      { section: 'scoring', key: 'novelty', label: 'Novelty weight', min: 0, max: 5, step: 0.1 },
+      { section: 'scoring', key: 'themeOverlap', label: 'Shared themes weight', min: 0, max: 5, step: 0.1 }
+    ]
+  },
+  {
+    title: 'Narrative',
+    controls: [
+      { section: 'timeline', key: 'protagonistStrategy', label: 'Protagonist strategy', options: PROTAGONIST_STRATEGIES },
+      { section: 'timeline', key: 'protagonistCount', label: 'Protagonists', min: 1, max: 8, step: 1 },
+      { section: 'timeline', key: 'protagonistPeriodYears', label: 'Protagonist period (years)', min: 1, max: 20, step: 1 },
+      { section: 'timeline', key: 'activeWindowYears', label: 'Active window (years)', min: 0.5, max: 20, step: 0.5 }
+    ]
+  }
+];
+
+export class TuningPanel {
+  public readonly element: HTMLDivElement;
+
+  private config: SimulationConfig;
+  private preset: ConfigPreset; // The loaded preset, restored by reset
+  private inputs: Map<string, { input: HTMLInputElement; value: HTMLSpanElement; control: TuningControl }> = new Map();
+  private choices: Map<string, { select: HTMLSelectElement; control: TuningChoice }> = new Map();
+
+  constructor(config: SimulationConfig, preset: ConfigPreset) {
+    this.config = config;
+    this.preset = preset;
+
+    this.injectStyles();
+    this.element = this.createStructure();
+  }
+
+  private getValue(control: TuningControl): number {
+    return (this.config[control.section] as unknown as Record<string, number>)[control.key];
+  }
+
+  private setValue(control: TuningControl | TuningChoice, value: number | string): void {
+    (this.config[control.section] as unknown as Record<string, number | string>)[control.key] = value;
+  }
+
+  private getChoice(control: TuningChoice): string {
+    return (this.config[control.section] as unknown as Record<string, string>)[control.key];
+  }
+
+  private createStructure(): HTMLDivElement {
+    const panel = document.createElement('div');
+    panel.className = 'tuning-panel';
+
+    for (const group of TUNING_GROUPS) {
+      const groupElement = document.createElement('div');
+      groupElement.className = 'tuning-group';
+
+      const title = document.createElement('div');
+      title.className = 'tuning-group-title';
+      title.textContent = group.title;
+      groupElement.appendChild(title);
+
+      for (const control of group.controls) {
+        groupElement.appendChild('options' in control ? this.createChoice(control) : this.createControl(control));
+      }
+      panel.appendChild(groupElement);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'tuning-actions';
+
+    const resetBtn = document.createElement('button');
+    resetBtn.className = 'tuning-btn';
+    resetBtn.textContent = 'Reset';
+    resetBtn.title = `Restore the "${this.preset.name}" values`;
+    resetBtn.onclick = () => this.reset();
+
+    const exportBtn = document.createElement('button');
+    exportBtn.className = 'tuning-btn';
+    exportBtn.textContent = 'Export preset';
+    exportBtn.onclick = () => this.exportPreset();
+
+    actions.append(resetBtn, exportBtn);
+    panel.appendChild(actions);
+
+    return panel;
+  }
+
+  private createControl(control: TuningControl): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'tuning-control';
+
+    const label = document.createElement('label');
+    label.className = 'tuning-label';
+    label.textContent = control.label;
+
+    const value = document.createElement('span');
+    value.className = 'tuning-value';
+
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.className = 'speed-slider';
+    input.min = control.min.toString();
+    input.max = (typeof control.max === 'function' ? control.max(this.config) : control.max).toString();
+    input.step = control.step.toString();
+    input.value = this.getValue(control).toString();
+    input.oninput = () => {
+      this.setValue(control, parseFloat(input.value));
+      value.textContent = this.formatValue(control);
+    };
+    value.textContent = this.formatValue(control);
+
+    label.appendChild(value);
+    row.append(label, input);
+    this.inputs.set(`${control.section}.${control.key}`, { input, value, control });
+    return row;
+  }
+
+  private createChoice(control: TuningChoice): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'tuning-control';
+
+    const label = document.createElement('label');
+    label.className = 'tuning-label';
+    label.textContent = control.label;
+
+    const select = document.createElement('select');
+    select.className = 'tuning-select';
+    for (const option of control.options) {
+      select.add(new Option(option, option));
+    }
+    select.value = this.getChoice(control);
+    select.onchange = () => this.setValue(control, select.value);
+
+    row.append(label, select);
+    this.choices.set(`${control.section}.${control.key}`, { select, control });
+    return row;
+  }
+
+  private formatValue(control: TuningControl): string {
+    const decimals = Math.max(0, -Math.floor(Math.log10(control.step)));
+    return this.getValue(control).toFixed(decimals);
+  }
+
+  // Pulls the current config values into the sliders
+  private refresh(): void {
+    for (const { input, value, control } of this.inputs.values()) {
+      input.value = this.getValue(control).toString();
+      value.textContent = this.formatValue(control);
+    }
+    for (const { select, control } of this.choices.values()) {
+      select.value = this.getChoice(control);
+    }
+  }
+
+  public reset(): void {
+    assignConfig(this.config, createConfig(this.preset.settings, `Preset "${this.preset.id}"`));
+    this.refresh();
+  }
+
+  /**
+   * Downloads the current settings as a preset entry for public/presets.json.
+   * Only values that differ from the defaults are written.
+   */
+  public exportPreset(): void {
+    const preset = {
+      id: 'custom',
+      name: 'Custom',
+      description: `Tuned from "${this.preset.name}"`,
+      settings: diffConfig(DEFAULT_CONFIG, this.config)
+    };
+
+    const blob = new Blob([JSON.stringify(preset, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'preset-custom.json';
+    link.click();
+    URL.revokeObjectURL(url);
+
+    console.log('💾 Exported tuning preset:', preset);
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById('tuning-panel-styles')) return; // Prevent duplicate injection
+
+    const style = document.createElement('style');
+    style.id = 'tuning-panel-styles';
+    style.textContent = `
+      .tuning-panel {
+        width: 100%;
+        max-height: 45vh;
+        overflow-y: auto;
+        margin-top: 8px;
+        padding-right: 4px;
+      }
+
+      .tuning-group {
+        margin-bottom: 10px;
+      }
+
+      .tuning-group-title {
+        font-size: 10px;
+        font-weight: 700;
+        color: #2a2a2a;
+        letter-spacing: 1px;
+        text-transform: uppercase;
+        border-bottom: 1px solid #ddd;
+        padding-bottom: 2px;
+        margin-bottom: 6px;
+      }
+
+      .tuning-control {
+        margin-bottom: 6px;
+      }
+
+      .tuning-label {
+        display: flex;
+        justify-content: space-between;
+        font-size: 10px;
+        color: #666;
+        margin-bottom: 2px;
+      }
+
+      .tuning-value {
+        color: #1a1a1a;
+        font-weight: 500;
+      }
+
+      .tuning-select {
+        width: 100%;
+        font-family: inherit;
+        font-size: 11px;
+        color: #1a1a1a;
+        background: #f5f5f5;
+        border: 1px solid #ccc;
+        padding: 2px 4px;
+      }
+
+      .tuning-actions {
+        display: flex;
+        gap: 8px;
+      }
+
+      .tuning-btn {
+        flex: 1;
+        background: linear-gradient(135deg, #f0f0f0, #e8e8e8);
+        border: 1px solid #ccc;
+        color: #2a2a2a;
+        font-family: inherit;
+        font-size: 11px;
+        padding: 6px;
+        cursor: pointer;
+      }
+
+      .tuning-btn:hover {
+        background: #e0e0e0;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+}